@@ -1,13 +1,45 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError, Option } from 'commander';
 
 const program = new Command();
 
+/**
+ * Collect repeatable, comma-separated option values
+ */
+function collectList(value: string, previous: string[] = []): string[] {
+  const values = value
+    .split(',')
+    .map((v) => v.trim())
+    .filter((v) => v !== '');
+  return [...previous, ...values];
+}
+
+/**
+ * Parse a positive whole number option value
+ */
+function parseCount(value: string): number {
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new InvalidArgumentError('Must be a positive whole number.');
+  }
+  return count;
+}
+
+/**
+ * Option to undo a channel's (or the whole run's) changes when one of them fails
+ */
+function atomicOption(): Option {
+  return new Option('--atomic [scope]', 'Roll back a channel (or the run) if any config fails')
+    .choices(['channel', 'run'])
+    .preset('channel');
+}
+
 program
   .name('ncoctl')
   .description('Configuration management tool for Norce Checkout')
-  .version('0.1.0');
+  .version('0.1.0')
+  .option('-e, --env <name>', 'Target environment from ncoctl.config.yaml');
 
 // Lazy-load commands only when executed
 program
@@ -25,33 +57,149 @@ program
 program
   .command('validate')
   .description('Validate local configuration files against their JSON schemas')
-  .option('-c, --channel <name>', 'Validate specific channel only')
+  .option('-c, --channel <names>', 'Validate matching channels (names or globs)', collectList)
+  .option('--changed-since <ref>', 'Only validate channels affected by changes since a git ref')
   .option('--json', 'Output as JSON')
-  .action(async (options) => {
+  .action(async (_options, command) => {
     const { runValidate } = await import('../src/commands/validate.js');
-    await runValidate(options);
+    await runValidate(command.optsWithGlobals());
   });
 
 program
   .command('plan')
   .description('Show changes between local configurations and remote API state')
-  .option('-c, --channel <name>', 'Plan specific channel only')
+  .option('-c, --channel <names>', 'Plan matching channels (names or globs)', collectList)
   .option('-v, --verbose', 'Show detailed diff output')
+  .option('--prune', 'Plan deletion of remote configurations without a local file')
+  .option('--against <ref>', 'Compare merged configurations to a git revision instead of the API')
+  .option('--changed-since <ref>', 'Only plan channels affected by changes since a git ref')
+  .option('--out <file>', "Save the plan to a file for 'ncoctl apply <file>'")
+  .option('--parallel <count>', 'Plan this many channels at a time', parseCount)
   .option('--json', 'Output as JSON')
-  .action(async (options) => {
+  .action(async (_options, command) => {
     const { runPlan } = await import('../src/commands/plan.js');
-    await runPlan(options);
+    await runPlan(command.optsWithGlobals());
+  });
+
+program
+  .command('drift')
+  .description('Check whether remote configurations still match the repository (exit 2 if not)')
+  .option('-c, --channel <names>', 'Check matching channels (names or globs)', collectList)
+  .option('--prune', 'Report remote configurations without a local file as deletions')
+  .option('--ignore-unmanaged', 'Do not count remote-only configurations and channels')
+  .option('--parallel <count>', 'Check this many channels at a time', parseCount)
+  .option('--json', 'Output as JSON')
+  .action(async (_options, command) => {
+    const { runDrift } = await import('../src/commands/drift.js');
+    await runDrift(command.optsWithGlobals());
   });
 
 program
-  .command('apply')
-  .description('Apply local configuration changes to remote API')
-  .option('-c, --channel <name>', 'Apply specific channel only')
+  .command('apply [planFile]')
+  .description('Apply local configuration changes (or a saved plan) to remote API')
+  .option('-c, --channel <names>', 'Apply matching channels (names or globs)', collectList)
   .option('-y, --yes', 'Skip confirmation prompt')
+  .option('--prune', 'Delete remote configurations without a local file')
+  .option('--changed-since <ref>', 'Only apply channels affected by changes since a git ref')
+  .option('--force', 'Overwrite remote configurations changed since planning')
+  .addOption(atomicOption())
+  .option('--bulk', "Send each channel's creates and updates in one request")
+  .option('--parallel <count>', 'Apply this many configs (or channels) at a time', parseCount)
   .option('--json', 'Output as JSON')
-  .action(async (options) => {
+  .action(async (planFile, _options, command) => {
     const { runApply } = await import('../src/commands/apply.js');
-    await runApply(options);
+    await runApply(planFile, command.optsWithGlobals());
+  });
+
+program
+  .command('promote <source> <target>')
+  .description('Promote the effective configuration of one environment to another')
+  .option('-c, --channel <names>', 'Promote matching channels (names or globs)', collectList)
+  .option('--from-local', 'Promote the local state of the source instead of its remote state')
+  .option('--dry-run', 'Show the plan without applying it')
+  .option('--force', 'Overwrite remote configurations changed since planning')
+  .addOption(atomicOption())
+  .option('--bulk', "Send each channel's creates and updates in one request")
+  .option('--parallel <count>', 'Apply this many configs (or channels) at a time', parseCount)
+  .option('-y, --yes', 'Skip confirmation prompt')
+  .option('--json', 'Output as JSON')
+  .action(async (source, target, _options, command) => {
+    const { runPromote } = await import('../src/commands/promote.js');
+    await runPromote(source, target, command.optsWithGlobals());
+  });
+
+program
+  .command('rollback [runId]')
+  .description('Restore the remote state from before an apply run (default: the latest)')
+  .option('--force', 'Overwrite remote configurations changed since planning')
+  .option('--parallel <count>', 'Apply this many configs at a time', parseCount)
+  .option('-y, --yes', 'Skip confirmation prompt')
+  .option('--json', 'Output as JSON')
+  .action(async (runId, _options, command) => {
+    const { runRollback } = await import('../src/commands/rollback.js');
+    await runRollback(runId, command.optsWithGlobals());
+  });
+
+program
+  .command('history')
+  .description('List recorded apply runs')
+  .option('-c, --channel <names>', 'Only runs for matching channels (names or globs)', collectList)
+  .option('--config <names>', 'Only runs for matching configurations (names or globs)', collectList)
+  .option('--since <date>', 'Only runs on or after a date or timestamp')
+  .option('--until <date>', 'Only runs up to a date or timestamp')
+  .option('-n, --limit <count>', 'Show at most this many runs', parseCount)
+  .option('-v, --verbose', 'Show the applied field changes')
+  .option('--json', 'Output as JSON')
+  .action(async (_options, command) => {
+    const { runHistory } = await import('../src/commands/history.js');
+    await runHistory(command.optsWithGlobals());
+  });
+
+program
+  .command('delete <channel> [config]')
+  .description('Delete a remote configuration, or a whole remote channel')
+  .option('-y, --yes', 'Skip confirmation prompt')
+  .option('--json', 'Output as JSON')
+  .action(async (channel, config, _options, command) => {
+    const { runDelete } = await import('../src/commands/delete.js');
+    await runDelete(channel, config, command.optsWithGlobals());
+  });
+
+program
+  .command('pull')
+  .description('Pull remote configurations into local YAML files')
+  .option('-c, --channel <names>', 'Pull matching channels (names or globs)', collectList)
+  .option('-f, --force', 'Overwrite existing files')
+  .option('--optimize', 'Hoist shared fields into root configs after pulling')
+  .option('--json', 'Output as JSON')
+  .action(async (_options, command) => {
+    const { runPull } = await import('../src/commands/pull.js');
+    await runPull(command.optsWithGlobals());
+  });
+
+program
+  .command('compare <channels...>')
+  .description('Compare two channels, or one configuration across several channels')
+  .option('--config <name>', 'Compare specific configuration only (required for 3+ channels)')
+  .option('-d, --differences-only', 'Hide identical configurations')
+  .option('-v, --verbose', 'Show which file supplied each differing value')
+  .option('--format <format>', 'Matrix output format: text, csv or json', 'text')
+  .option('--json', 'Output as JSON')
+  .action(async (channels, _options, command) => {
+    const { runCompare } = await import('../src/commands/compare.js');
+    await runCompare(channels, command.optsWithGlobals());
+  });
+
+program
+  .command('optimize')
+  .description('Hoist fields shared by channels into root configurations')
+  .option('--config <name>', 'Optimize specific configuration only')
+  .option('--threshold <ratio>', 'Share of channels that must agree on a value (0.5-1)', '1')
+  .option('--dry-run', 'Show what would change without writing files')
+  .option('--json', 'Output as JSON')
+  .action(async (_options, command) => {
+    const { runOptimize } = await import('../src/commands/optimize.js');
+    await runOptimize(command.optsWithGlobals());
   });
 
 program.parse();
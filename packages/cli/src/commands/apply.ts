@@ -2,18 +2,23 @@ import {
   loadProjectConfig,
   findProjectRoot,
   generatePlan,
+  findChangedChannels,
   formatPlan,
   planHasChanges,
   applyConfigs,
+  applySavedPlan,
+  readSavedPlan,
   formatApplyResult,
   PlanValidationError,
   ProjectConfigError,
   YamlLoadError,
   ApiError,
+  GitError,
+  SavedPlanError,
 } from '@nco-control/core';
-import { printError } from '../output/console.js';
+import { printError, printWarning } from '../output/console.js';
 import { printJson } from '../output/json.js';
-import { confirm } from '../output/prompt.js';
+import { confirm, confirmTyped } from '../output/prompt.js';
 
 /**
  * Exit codes
@@ -24,8 +29,25 @@ const EXIT_FATAL_ERROR = 2;
 
 /**
  * Run apply command
+ *
+ * With a plan file (from `plan --out`), applies exactly that plan instead of
+ * generating a new one.
  */
-export async function runApply(options: { channel?: string; yes?: boolean; json?: boolean }): Promise<void> {
+export async function runApply(
+  planFile: string | undefined,
+  options: {
+    channel?: string[];
+    yes?: boolean;
+    prune?: boolean;
+    changedSince?: string;
+    force?: boolean;
+    atomic?: 'channel' | 'run';
+    bulk?: boolean;
+    parallel?: number;
+    json?: boolean;
+    env?: string;
+  }
+): Promise<void> {
   try {
     // Find project root
     const projectRoot = findProjectRoot(process.cwd());
@@ -34,17 +56,47 @@ export async function runApply(options: { channel?: string; yes?: boolean; json?
       process.exit(EXIT_FATAL_ERROR);
     }
 
+    // A saved plan fixes the channels and is applied in the environment it was made for
+    const savedPlan = planFile ? readSavedPlan(planFile) : undefined;
+    if (savedPlan && (options.channel || options.prune || options.changedSince)) {
+      printError('--channel, --prune and --changed-since cannot be used with a plan file.');
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
     // Load project config
-    const config = await loadProjectConfig(projectRoot);
+    const config = await loadProjectConfig(projectRoot, {
+      environment: options.env ?? savedPlan?.plan.environment,
+    });
+
+    // Limit to channels affected by changes since a git revision
+    let channels = options.channel;
+    if (options.changedSince) {
+      channels = await findChangedChannels(projectRoot, config, options.changedSince, {
+        channels,
+      });
+      if (channels.length === 0) {
+        const message = `No channels changed since ${options.changedSince}`;
+        if (options.json) {
+          printJson({ success: true, message, channels: [] });
+        } else {
+          console.log(`${message}.`);
+        }
+        process.exit(EXIT_SUCCESS);
+      }
+    }
 
     // Generate plan first
-    if (!options.json) {
+    if (!options.json && !savedPlan) {
       console.log('Generating plan...\n');
     }
 
-    const plan = await generatePlan(projectRoot, config, {
-      channel: options.channel,
-    });
+    const plan =
+      savedPlan?.plan ??
+      (await generatePlan(projectRoot, config, {
+        channels,
+        prune: options.prune,
+        concurrency: options.parallel,
+      }));
 
     // Check if there are any changes
     if (!planHasChanges(plan)) {
@@ -67,13 +119,34 @@ export async function runApply(options: { channel?: string; yes?: boolean; json?
       console.log('');
     }
 
+    // --json cannot prompt, so production changes require --yes
+    if (!options.yes && options.json && config.environment?.production) {
+      printJson({
+        error: 'confirmation_required',
+        message: 'Use --yes with --json to apply to a production environment',
+      });
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
     // Confirm unless --yes
     if (!options.yes && !options.json) {
-      const totalChanges = plan.summary.creates + plan.summary.updates;
-      const confirmed = await confirm(
-        `Apply ${totalChanges} configuration change(s)?`,
-        false
-      );
+      const totalChanges = plan.summary.creates + plan.summary.updates + plan.summary.deletes;
+      const deleteText =
+        plan.summary.deletes > 0 ? `, including ${plan.summary.deletes} deletion(s)` : '';
+      const environment = config.environment;
+
+      // Production environments require typing the environment name
+      const confirmed = environment?.production
+        ? await confirmTyped(
+            `You are about to apply ${totalChanges} configuration change(s)${deleteText} to PRODUCTION (${environment.name}).\n` +
+              `Type the environment name '${environment.name}' to confirm:`,
+            environment.name
+          )
+        : await confirm(
+            `Apply ${totalChanges} configuration change(s)${deleteText}` +
+              `${environment ? ` to ${environment.name}` : ''}?`,
+            false
+          );
 
       if (!confirmed) {
         console.log('\nApply cancelled.');
@@ -87,20 +160,37 @@ export async function runApply(options: { channel?: string; yes?: boolean; json?
       console.log('Applying changes...\n');
     }
 
-    const result = await applyConfigs(projectRoot, config, plan, {
-      channel: options.channel,
-    });
+    const result = savedPlan
+      ? await applySavedPlan(projectRoot, config, savedPlan, {
+          force: options.force,
+          atomic: options.atomic,
+          bulk: options.bulk,
+          concurrency: options.parallel,
+        })
+      : await applyConfigs(projectRoot, config, plan, {
+          channels,
+          prune: options.prune,
+          force: options.force,
+          atomic: options.atomic,
+          bulk: options.bulk,
+          concurrency: options.parallel,
+        });
 
     // Output results
     if (options.json) {
       printJson({
         success: result.success,
+        runId: result.runId,
         results: result.results,
         summary: result.summary,
+        warnings: result.warnings,
       });
     } else {
       const useColors = !process.env['NO_COLOR'] && process.env['FORCE_COLOR'] !== '0';
       console.log(formatApplyResult(result, useColors));
+      for (const warning of result.warnings ?? []) {
+        printWarning(warning);
+      }
     }
 
     // Exit with appropriate code
@@ -137,6 +227,26 @@ export async function runApply(options: { channel?: string; yes?: boolean; json?
       process.exit(EXIT_FATAL_ERROR);
     }
 
+    // Handle saved plan errors
+    if (error instanceof SavedPlanError) {
+      if (options.json) {
+        printJson({ error: 'plan_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle git errors
+    if (error instanceof GitError) {
+      if (options.json) {
+        printJson({ error: 'git_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
     // Handle config errors
     if (error instanceof ProjectConfigError) {
       if (options.json) {
@@ -0,0 +1,74 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { runCompare } from './compare.js';
+
+/**
+ * Thrown by the mocked `process.exit` so the command stops where it exits
+ */
+class ExitError extends Error {}
+
+/**
+ * Run the compare command in a project and return its first exit code
+ */
+async function run(
+  projectDir: string,
+  channels: string[],
+  options: { config?: string } = {}
+): Promise<unknown> {
+  vi.restoreAllMocks();
+  vi.spyOn(process, 'cwd').mockReturnValue(projectDir);
+  const exit = vi.spyOn(process, 'exit').mockImplementation(() => {
+    throw new ExitError();
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  await runCompare(channels, options).catch((error: unknown) => {
+    if (!(error instanceof ExitError)) throw error;
+  });
+  return exit.mock.calls[0]?.[0];
+}
+
+describe('runCompare', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ncoctl-compare-'));
+    const files: Record<string, string> = {
+      'ncoctl.config.yaml':
+        'merchant: test-merchant\napi:\n  baseUrl: https://configuration.example.com\n',
+      'sweden/klarna_checkout.yaml': 'id: klarna_checkout\ntimeout: 30\n',
+      'norway/klarna_checkout.yaml': 'id: klarna_checkout\ntimeout: 30\n',
+      'finland/klarna_checkout.yaml': 'id: klarna_checkout\ntimeout: 60\n',
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.promises.mkdir(path.dirname(path.join(projectDir, file)), { recursive: true });
+      await fs.promises.writeFile(path.join(projectDir, file), content);
+    }
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.promises.rm(projectDir, { recursive: true, force: true });
+  });
+
+  it('exits with 0 when the channels are identical', async () => {
+    expect(await run(projectDir, ['sweden', 'norway'])).toBe(0);
+  });
+
+  it('exits with 1 when the channels differ', async () => {
+    expect(await run(projectDir, ['sweden', 'finland'])).toBe(1);
+  });
+
+  it('exits with 1 when a matrix has differences and 0 when it has none', async () => {
+    expect(await run(projectDir, ['*'], { config: 'klarna_checkout' })).toBe(1);
+    expect(await run(projectDir, ['sweden', 'no*'], { config: 'klarna_checkout' })).toBe(0);
+  });
+
+  it('exits with 2 on errors', async () => {
+    expect(await run(projectDir, ['sweden', 'denmark'])).toBe(2);
+    expect(await run(projectDir, ['sweden', 'norway', 'finland'])).toBe(2);
+  });
+});
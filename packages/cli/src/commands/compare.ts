@@ -0,0 +1,178 @@
+import {
+  loadProjectConfig,
+  findProjectRoot,
+  compareSides,
+  parseCompareSide,
+  compareHasDifferences,
+  formatCompareResult,
+  compareMatrix,
+  matrixHasDifferences,
+  formatMatrixResult,
+  formatMatrixCsv,
+  ProjectConfigError,
+  YamlLoadError,
+  ApiError,
+} from '@nco-control/core';
+import type { ProjectConfig } from '@nco-control/core';
+import { printError } from '../output/console.js';
+import { printJson } from '../output/json.js';
+
+/**
+ * Exit codes
+ */
+const EXIT_IDENTICAL = 0;
+const EXIT_DIFFERENT = 1;
+const EXIT_FATAL_ERROR = 2;
+
+/**
+ * Run compare command
+ *
+ * Two channels give a side-by-side comparison of all configurations; each may be
+ * local or remote and in another environment (`[local|remote][@<env>]:<channel>`).
+ * More channels, or glob patterns, compare one configuration as a matrix.
+ */
+export async function runCompare(
+  channels: string[],
+  options: {
+    config?: string;
+    differencesOnly?: boolean;
+    verbose?: boolean;
+    format?: string;
+    json?: boolean;
+    env?: string;
+  }
+): Promise<void> {
+  const format = options.json ? 'json' : (options.format ?? 'text');
+
+  try {
+    // Find project root
+    const projectRoot = findProjectRoot(process.cwd());
+    if (!projectRoot) {
+      printError("Not in an nco-control project. Run 'ncoctl init' first.");
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    if (!['text', 'csv', 'json'].includes(format)) {
+      printError(`Invalid format '${format}'. Use text, csv or json.`);
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Project config per environment, loaded on first use
+    const configs = new Map<string, Promise<ProjectConfig>>();
+    const configFor = (environment: string | undefined): Promise<ProjectConfig> => {
+      const key = environment ?? '';
+      if (!configs.has(key)) {
+        configs.set(key, loadProjectConfig(projectRoot, { environment }));
+      }
+      return configs.get(key)!;
+    };
+
+    const isMatrix = channels.length !== 2 || channels.some((ch) => /[*?]/.test(ch));
+    if (isMatrix) {
+      if (!options.config) {
+        printError('Comparing more than two channels requires --config <name>.');
+        process.exit(EXIT_FATAL_ERROR);
+      }
+
+      const matrix = await compareMatrix(
+        projectRoot,
+        await configFor(options.env),
+        channels,
+        options.config
+      );
+
+      // Output results
+      if (format === 'json') {
+        printJson(matrix);
+      } else if (format === 'csv') {
+        console.log(formatMatrixCsv(matrix));
+      } else {
+        const useColors = !process.env['NO_COLOR'] && process.env['FORCE_COLOR'] !== '0';
+        console.log(formatMatrixResult(matrix, useColors));
+      }
+
+      process.exit(matrixHasDifferences(matrix) ? EXIT_DIFFERENT : EXIT_IDENTICAL);
+    }
+
+    if (format === 'csv') {
+      printError('CSV output is only available when comparing more than two channels.');
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Each side is a local or remote channel, optionally in another environment
+    const [sideA, sideB] = await Promise.all(
+      channels.map(async (spec) => {
+        const side = parseCompareSide(spec);
+        return {
+          channel: side.channel,
+          remote: side.remote,
+          config: await configFor(side.environment ?? options.env),
+        };
+      })
+    );
+
+    // Compare
+    const result = await compareSides(projectRoot, sideA!, sideB!, {
+      config: options.config,
+      differencesOnly: options.differencesOnly,
+    });
+
+    // Output results
+    if (format === 'json') {
+      printJson(result);
+    } else {
+      const useColors = !process.env['NO_COLOR'] && process.env['FORCE_COLOR'] !== '0';
+      console.log(formatCompareResult(result, useColors, options.verbose));
+    }
+
+    // Exit code tells whether the channels differ
+    process.exit(compareHasDifferences(result) ? EXIT_DIFFERENT : EXIT_IDENTICAL);
+  } catch (error) {
+    // Handle API errors
+    if (error instanceof ApiError) {
+      if (format === 'json') {
+        printJson({
+          error: 'api_error',
+          message: error.message,
+          statusCode: error.statusCode,
+        });
+      } else {
+        printError(`API error (${error.statusCode}): ${error.message}`);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle config errors
+    if (error instanceof ProjectConfigError) {
+      if (format === 'json') {
+        printJson({ error: 'config_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle YAML errors
+    if (error instanceof YamlLoadError) {
+      const message = error.line
+        ? `${error.filePath}:${error.line}: ${error.message}`
+        : `${error.filePath}: ${error.message}`;
+
+      if (format === 'json') {
+        printJson({ error: 'yaml_error', message });
+      } else {
+        printError(message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Unknown error
+    const message = error instanceof Error ? error.message : String(error);
+    if (format === 'json') {
+      printJson({ error: 'internal_error', message });
+    } else {
+      printError(`Unexpected error: ${message}`);
+    }
+    process.exit(EXIT_FATAL_ERROR);
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { deleteRemote } from '@nco-control/core';
+import { confirmTyped } from '../output/prompt.js';
+import { runDelete } from './delete.js';
+
+vi.mock('@nco-control/core', () => ({
+  findProjectRoot: () => '/nonexistent/project',
+  loadProjectConfig: () => Promise.resolve({ merchant: 'test-merchant' }),
+  planDelete: (_dir: string, _config: unknown, channel: string, configName: string) =>
+    Promise.resolve({ channel, configs: [configName], wholeChannel: false, removesChannel: false }),
+  deleteRemote: vi.fn(),
+  ProjectConfigError: class extends Error {},
+  ApiError: class extends Error {},
+}));
+
+vi.mock('../output/prompt.js', () => ({ confirmTyped: vi.fn() }));
+
+/**
+ * Thrown by the mocked `process.exit` so the command stops where it exits
+ */
+class ExitError extends Error {}
+
+/**
+ * Run the delete command and return its first exit code and console output
+ */
+async function run(options: {
+  yes?: boolean;
+  json?: boolean;
+}): Promise<{ code: unknown; output: string[] }> {
+  const exit = vi.spyOn(process, 'exit').mockImplementation(() => {
+    throw new ExitError();
+  });
+  const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+  await runDelete('sweden', 'klarna_checkout', options).catch((error: unknown) => {
+    if (!(error instanceof ExitError)) throw error;
+  });
+  return { code: exit.mock.calls[0]?.[0], output: log.mock.calls.map((args) => String(args[0])) };
+}
+
+describe('runDelete', () => {
+  beforeEach(() => {
+    vi.mocked(deleteRemote).mockResolvedValue({
+      success: true,
+      channel: 'sweden',
+      configs: ['klarna_checkout'],
+      wholeChannel: false,
+      runId: '2026-01-01T00-00-00-000Z',
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(deleteRemote).mockReset();
+    vi.mocked(confirmTyped).mockReset();
+  });
+
+  it('requires --yes with --json', async () => {
+    const { code, output } = await run({ json: true });
+
+    expect(code).toBe(2);
+    expect(JSON.parse(output[0]!)).toMatchObject({ error: 'confirmation_required' });
+    expect(confirmTyped).not.toHaveBeenCalled();
+    expect(deleteRemote).not.toHaveBeenCalled();
+  });
+
+  it('deletes without asking with --yes', async () => {
+    const { code, output } = await run({ yes: true, json: true });
+
+    expect(code).toBe(0);
+    expect(confirmTyped).not.toHaveBeenCalled();
+    expect(JSON.parse(output[0]!)).toMatchObject({
+      success: true,
+      runId: '2026-01-01T00-00-00-000Z',
+    });
+  });
+
+  it('cancels unless the channel name is typed', async () => {
+    vi.mocked(confirmTyped).mockResolvedValue(false);
+
+    const { code } = await run({});
+
+    expect(code).toBe(0);
+    expect(confirmTyped).toHaveBeenCalledWith(expect.any(String), 'sweden');
+    expect(deleteRemote).not.toHaveBeenCalled();
+  });
+
+  it('deletes once the channel name is typed and prints how to undo it', async () => {
+    vi.mocked(confirmTyped).mockResolvedValue(true);
+
+    const { code, output } = await run({});
+
+    expect(code).toBe(0);
+    expect(deleteRemote).toHaveBeenCalledTimes(1);
+    expect(output).toContain(
+      "Previous state backed up. Undo with 'ncoctl rollback 2026-01-01T00-00-00-000Z'."
+    );
+  });
+
+  it('exits with 1 when the delete fails', async () => {
+    vi.mocked(deleteRemote).mockResolvedValue({
+      success: false,
+      channel: 'sweden',
+      configs: ['klarna_checkout'],
+      wholeChannel: false,
+      error: 'API error (500): Injected failure',
+    });
+
+    const { code } = await run({ yes: true });
+
+    expect(code).toBe(1);
+  });
+});
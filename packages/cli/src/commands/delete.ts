@@ -0,0 +1,144 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import {
+  loadProjectConfig,
+  findProjectRoot,
+  planDelete,
+  deleteRemote,
+  ProjectConfigError,
+  ApiError,
+} from '@nco-control/core';
+import { printError, printSuccess, printWarning } from '../output/console.js';
+import { printJson } from '../output/json.js';
+import { confirmTyped } from '../output/prompt.js';
+
+/**
+ * Exit codes
+ */
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_FATAL_ERROR = 2;
+
+/**
+ * Run delete command
+ */
+export async function runDelete(
+  channel: string,
+  configName: string | undefined,
+  options: { yes?: boolean; json?: boolean; env?: string }
+): Promise<void> {
+  try {
+    // Find project root
+    const projectRoot = findProjectRoot(process.cwd());
+    if (!projectRoot) {
+      printError("Not in an nco-control project. Run 'ncoctl init' first.");
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Load project config
+    const config = await loadProjectConfig(projectRoot, { environment: options.env });
+
+    // Look up what will be removed
+    const target = await planDelete(projectRoot, config, channel, configName);
+
+    // Show what will be removed
+    if (!options.json) {
+      const environment = config.environment ? ` (environment: ${config.environment.name})` : '';
+      console.log(
+        `The following remote configuration(s) in channel '${channel}'${environment} will be deleted:`
+      );
+      for (const name of target.configs) {
+        console.log(`  - ${name}`);
+      }
+      if (target.removesChannel) {
+        console.log(`\nThe channel '${channel}' will be removed remotely.`);
+      }
+      console.log('');
+    }
+
+    // Confirm unless --yes
+    if (!options.yes) {
+      if (options.json) {
+        printJson({ error: 'confirmation_required', message: 'Use --yes with --json to delete' });
+        process.exit(EXIT_FATAL_ERROR);
+      }
+
+      const confirmed = await confirmTyped(
+        `Type the channel name '${channel}' to confirm:`,
+        channel
+      );
+
+      if (!confirmed) {
+        console.log('\nDelete cancelled.');
+        process.exit(EXIT_SUCCESS);
+      }
+      console.log('');
+    }
+
+    // Delete
+    const result = await deleteRemote(projectRoot, config, target);
+
+    // Output results
+    if (options.json) {
+      printJson(result);
+    } else if (result.success) {
+      printSuccess(`Deleted ${result.configs.length} configuration(s) from '${channel}'.`);
+
+      // Local files are recreated on the next apply
+      const localPath = configName
+        ? path.join(projectRoot, channel, `${configName}.yaml`)
+        : path.join(projectRoot, channel);
+      if (fs.existsSync(localPath)) {
+        printWarning(
+          `${path.relative(projectRoot, localPath)} still exists locally and will be recreated by 'ncoctl apply'.`
+        );
+      }
+    } else {
+      printError(`Delete failed: ${result.error}`);
+    }
+    if (!options.json) {
+      if (result.runId) {
+        console.log(`Previous state backed up. Undo with 'ncoctl rollback ${result.runId}'.`);
+      }
+      for (const warning of result.warnings ?? []) {
+        printWarning(warning);
+      }
+    }
+
+    // Exit with appropriate code
+    process.exit(result.success ? EXIT_SUCCESS : EXIT_FAILURE);
+  } catch (error) {
+    // Handle API errors
+    if (error instanceof ApiError) {
+      if (options.json) {
+        printJson({
+          error: 'api_error',
+          message: error.message,
+          statusCode: error.statusCode,
+        });
+      } else {
+        printError(`API error (${error.statusCode}): ${error.message}`);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle config errors
+    if (error instanceof ProjectConfigError) {
+      if (options.json) {
+        printJson({ error: 'config_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Unknown error
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      printJson({ error: 'internal_error', message });
+    } else {
+      printError(`Unexpected error: ${message}`);
+    }
+    process.exit(EXIT_FATAL_ERROR);
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  loadProjectConfig,
+  findProjectRoot,
+  detectDrift,
+  formatDriftResult,
+  PlanValidationError,
+  ProjectConfigError,
+  YamlLoadError,
+  ApiError,
+} from '@nco-control/core';
+import { printError } from '../output/console.js';
+import { printJson } from '../output/json.js';
+
+/**
+ * Exit codes (for CI: differences are not an error of the command itself)
+ */
+const EXIT_NO_DRIFT = 0;
+const EXIT_ERROR = 1;
+const EXIT_DRIFT = 2;
+
+/**
+ * Run drift command
+ */
+export async function runDrift(options: {
+  channel?: string[];
+  prune?: boolean;
+  ignoreUnmanaged?: boolean;
+  parallel?: number;
+  json?: boolean;
+  env?: string;
+}): Promise<void> {
+  try {
+    // Find project root
+    const projectRoot = findProjectRoot(process.cwd());
+    if (!projectRoot) {
+      printError("Not in an nco-control project. Run 'ncoctl init' first.");
+      process.exit(EXIT_ERROR);
+    }
+
+    // Load project config
+    const config = await loadProjectConfig(projectRoot, { environment: options.env });
+
+    const result = await detectDrift(projectRoot, config, {
+      channels: options.channel,
+      prune: options.prune,
+      ignoreUnmanaged: options.ignoreUnmanaged,
+      concurrency: options.parallel,
+    });
+
+    // Output results
+    if (options.json) {
+      printJson(result);
+    } else {
+      const useColors = !process.env['NO_COLOR'] && process.env['FORCE_COLOR'] !== '0';
+      console.log(formatDriftResult(result, useColors));
+    }
+
+    process.exit(result.drifted ? EXIT_DRIFT : EXIT_NO_DRIFT);
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof PlanValidationError) {
+      if (options.json) {
+        printJson({
+          error: 'validation_error',
+          message: error.message,
+          details: error.errors,
+        });
+      } else {
+        printError('Validation failed. Fix the following errors before checking drift:\n');
+        for (const e of error.errors) {
+          console.log(`  ${e.channel}: ${e.message}`);
+        }
+      }
+      process.exit(EXIT_ERROR);
+    }
+
+    // Handle API errors
+    if (error instanceof ApiError) {
+      if (options.json) {
+        printJson({
+          error: 'api_error',
+          message: error.message,
+          statusCode: error.statusCode,
+        });
+      } else {
+        printError(`API error (${error.statusCode}): ${error.message}`);
+      }
+      process.exit(EXIT_ERROR);
+    }
+
+    // Handle config errors
+    if (error instanceof ProjectConfigError) {
+      if (options.json) {
+        printJson({ error: 'config_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_ERROR);
+    }
+
+    // Handle YAML errors
+    if (error instanceof YamlLoadError) {
+      const message = error.line
+        ? `${error.filePath}:${error.line}: ${error.message}`
+        : `${error.filePath}: ${error.message}`;
+
+      if (options.json) {
+        printJson({ error: 'yaml_error', message });
+      } else {
+        printError(message);
+      }
+      process.exit(EXIT_ERROR);
+    }
+
+    // Unknown error
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      printJson({ error: 'internal_error', message });
+    } else {
+      printError(`Unexpected error: ${message}`);
+    }
+    process.exit(EXIT_ERROR);
+  }
+}
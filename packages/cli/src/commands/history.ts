@@ -0,0 +1,76 @@
+import { findProjectRoot, readHistory, formatHistory } from '@nco-control/core';
+import { printError } from '../output/console.js';
+import { printJson } from '../output/json.js';
+
+/**
+ * Exit codes
+ */
+const EXIT_SUCCESS = 0;
+const EXIT_FATAL_ERROR = 2;
+
+/**
+ * Run history command
+ */
+export async function runHistory(options: {
+  channel?: string[];
+  config?: string[];
+  since?: string;
+  until?: string;
+  limit?: number;
+  verbose?: boolean;
+  json?: boolean;
+}): Promise<void> {
+  try {
+    // Find project root
+    const projectRoot = findProjectRoot(process.cwd());
+    if (!projectRoot) {
+      printError("Not in an nco-control project. Run 'ncoctl init' first.");
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    const entries = await readHistory(projectRoot, {
+      channels: options.channel,
+      configs: options.config,
+      since: options.since !== undefined ? parseDate(options.since, '--since', false) : undefined,
+      until: options.until !== undefined ? parseDate(options.until, '--until', true) : undefined,
+      limit: options.limit,
+    });
+
+    // Output results
+    if (options.json) {
+      printJson(entries);
+    } else {
+      const useColors = !process.env['NO_COLOR'] && process.env['FORCE_COLOR'] !== '0';
+      console.log(formatHistory(entries, { colors: useColors, verbose: options.verbose }));
+    }
+
+    process.exit(EXIT_SUCCESS);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      printJson({ error: 'internal_error', message });
+    } else {
+      printError(`Unexpected error: ${message}`);
+    }
+    process.exit(EXIT_FATAL_ERROR);
+  }
+}
+
+/**
+ * Parse a date or timestamp option
+ *
+ * A plain date (YYYY-MM-DD) means the start of that day (UTC), or the end of it
+ * for `--until`, so `--until 2026-01-31` includes the 31st.
+ */
+function parseDate(value: string, option: string, endOfDay: boolean): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    printError(`Invalid ${option} '${value}'. Use a date (2026-01-31) or an ISO timestamp.`);
+    process.exit(EXIT_FATAL_ERROR);
+  }
+
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date;
+}
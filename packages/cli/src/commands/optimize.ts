@@ -0,0 +1,93 @@
+import {
+  loadProjectConfig,
+  findProjectRoot,
+  optimizeProject,
+  formatOptimizeResult,
+  ProjectConfigError,
+  YamlLoadError,
+} from '@nco-control/core';
+import { printError } from '../output/console.js';
+import { printJson } from '../output/json.js';
+
+/**
+ * Exit codes
+ */
+const EXIT_SUCCESS = 0;
+const EXIT_FATAL_ERROR = 2;
+
+/**
+ * Run optimize command
+ */
+export async function runOptimize(options: {
+  config?: string;
+  threshold?: string;
+  dryRun?: boolean;
+  json?: boolean;
+  env?: string;
+}): Promise<void> {
+  try {
+    // Find project root
+    const projectRoot = findProjectRoot(process.cwd());
+    if (!projectRoot) {
+      printError("Not in an nco-control project. Run 'ncoctl init' first.");
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Load project config
+    const config = await loadProjectConfig(projectRoot, { environment: options.env });
+
+    // Optimize
+    if (!options.json) {
+      console.log('Optimizing configurations...\n');
+    }
+
+    const result = await optimizeProject(projectRoot, config, {
+      config: options.config,
+      threshold: options.threshold !== undefined ? Number(options.threshold) : undefined,
+      dryRun: options.dryRun,
+    });
+
+    // Output results
+    if (options.json) {
+      printJson(result);
+    } else {
+      const useColors = !process.env['NO_COLOR'] && process.env['FORCE_COLOR'] !== '0';
+      console.log(formatOptimizeResult(result, useColors, options.dryRun));
+    }
+
+    process.exit(EXIT_SUCCESS);
+  } catch (error) {
+    // Handle config errors
+    if (error instanceof ProjectConfigError) {
+      if (options.json) {
+        printJson({ error: 'config_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle YAML errors
+    if (error instanceof YamlLoadError) {
+      const message = error.line
+        ? `${error.filePath}:${error.line}: ${error.message}`
+        : `${error.filePath}: ${error.message}`;
+
+      if (options.json) {
+        printJson({ error: 'yaml_error', message });
+      } else {
+        printError(message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Unknown error
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      printJson({ error: 'internal_error', message });
+    } else {
+      printError(`Unexpected error: ${message}`);
+    }
+    process.exit(EXIT_FATAL_ERROR);
+  }
+}
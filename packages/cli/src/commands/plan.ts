@@ -2,11 +2,17 @@ import {
   loadProjectConfig,
   findProjectRoot,
   generatePlan,
+  generateRevisionPlan,
+  findChangedChannels,
+  createSavedPlan,
+  writeSavedPlan,
   formatPlan,
   PlanValidationError,
   ProjectConfigError,
   YamlLoadError,
   ApiError,
+  GitError,
+  SavedPlanError,
 } from '@nco-control/core';
 import { printError } from '../output/console.js';
 import { printJson } from '../output/json.js';
@@ -20,7 +26,17 @@ const EXIT_FATAL_ERROR = 2;
 /**
  * Run plan command
  */
-export async function runPlan(options: { channel?: string; verbose?: boolean; json?: boolean }): Promise<void> {
+export async function runPlan(options: {
+  channel?: string[];
+  verbose?: boolean;
+  prune?: boolean;
+  against?: string;
+  changedSince?: string;
+  out?: string;
+  parallel?: number;
+  json?: boolean;
+  env?: string;
+}): Promise<void> {
   try {
     // Find project root
     const projectRoot = findProjectRoot(process.cwd());
@@ -29,18 +45,48 @@ export async function runPlan(options: { channel?: string; verbose?: boolean; js
       process.exit(EXIT_FATAL_ERROR);
     }
 
+    // A plan against a git revision is not a plan against the remote, so it cannot be applied
+    if (options.out && options.against) {
+      printError('--out cannot be used with --against.');
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
     // Load project config
-    const config = await loadProjectConfig(projectRoot);
+    const config = await loadProjectConfig(projectRoot, { environment: options.env });
+
+    // Limit to channels affected by changes since a git revision
+    let channels = options.channel;
+    if (options.changedSince) {
+      channels = await findChangedChannels(projectRoot, config, options.changedSince, {
+        channels,
+      });
+      if (channels.length === 0) {
+        const message = `No channels changed since ${options.changedSince}`;
+        if (options.json) {
+          printJson({ success: true, message, channels: [] });
+        } else {
+          console.log(`${message}.`);
+        }
+        process.exit(EXIT_SUCCESS);
+      }
+    }
 
     // Generate plan
     if (!options.json) {
-      console.log('Generating plan...\n');
+      console.log(
+        options.against ? `Generating plan against ${options.against}...\n` : 'Generating plan...\n'
+      );
     }
 
-    const plan = await generatePlan(projectRoot, config, {
-      channel: options.channel,
-      verbose: options.verbose,
-    });
+    // Against a git revision the remote API is not used
+    const plan = options.against
+      ? await generateRevisionPlan(projectRoot, config, options.against, { channels })
+      : await generatePlan(projectRoot, config, {
+          channels,
+          verbose: options.verbose,
+          prune: options.prune,
+          concurrency: options.parallel,
+        });
 
     // Output results
     if (options.json) {
@@ -54,6 +100,14 @@ export async function runPlan(options: { channel?: string; verbose?: boolean; js
       console.log(formatted);
     }
 
+    // Save the plan for 'ncoctl apply <file>'
+    if (options.out) {
+      writeSavedPlan(options.out, await createSavedPlan(projectRoot, config, plan));
+      if (!options.json) {
+        console.log(`\nPlan saved to ${options.out}. Apply it with 'ncoctl apply ${options.out}'.`);
+      }
+    }
+
     // Exit with appropriate code
     process.exit(EXIT_SUCCESS);
   } catch (error) {
@@ -88,6 +142,26 @@ export async function runPlan(options: { channel?: string; verbose?: boolean; js
       process.exit(EXIT_FATAL_ERROR);
     }
 
+    // Handle saved plan errors
+    if (error instanceof SavedPlanError) {
+      if (options.json) {
+        printJson({ error: 'plan_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle git errors
+    if (error instanceof GitError) {
+      if (options.json) {
+        printJson({ error: 'git_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
     // Handle config errors
     if (error instanceof ProjectConfigError) {
       if (options.json) {
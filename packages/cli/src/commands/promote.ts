@@ -0,0 +1,231 @@
+import {
+  loadProjectConfig,
+  findProjectRoot,
+  promoteEnvironment,
+  formatPlan,
+  planHasChanges,
+  applyConfigs,
+  formatApplyResult,
+  PlanValidationError,
+  ProjectConfigError,
+  YamlLoadError,
+  ApiError,
+} from '@nco-control/core';
+import { printError, printWarning } from '../output/console.js';
+import { printJson } from '../output/json.js';
+import { confirm, confirmTyped } from '../output/prompt.js';
+
+/**
+ * Exit codes
+ */
+const EXIT_SUCCESS = 0;
+const EXIT_PARTIAL_FAILURE = 1;
+const EXIT_FATAL_ERROR = 2;
+
+/**
+ * Run promote command
+ */
+export async function runPromote(
+  source: string,
+  target: string,
+  options: {
+    channel?: string[];
+    fromLocal?: boolean;
+    dryRun?: boolean;
+    force?: boolean;
+    atomic?: 'channel' | 'run';
+    bulk?: boolean;
+    parallel?: number;
+    yes?: boolean;
+    json?: boolean;
+    env?: string;
+  }
+): Promise<void> {
+  try {
+    // The environments are the source and target arguments
+    if (options.env) {
+      printError(
+        '--env cannot be used with promote. Give the source and target environments as arguments.'
+      );
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Find project root
+    const projectRoot = findProjectRoot(process.cwd());
+    if (!projectRoot) {
+      printError("Not in an nco-control project. Run 'ncoctl init' first.");
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Load project config for both environments
+    const sourceConfig = await loadProjectConfig(projectRoot, { environment: source });
+    const targetConfig = await loadProjectConfig(projectRoot, { environment: target });
+
+    // Generate plan for the target
+    if (!options.json) {
+      console.log(`Generating promotion plan from ${source} to ${target}...\n`);
+    }
+
+    const { plan, payloads } = await promoteEnvironment(projectRoot, sourceConfig, targetConfig, {
+      channels: options.channel,
+      fromLocal: options.fromLocal,
+    });
+
+    // Check if there are any changes
+    if (!planHasChanges(plan)) {
+      if (options.json) {
+        printJson({
+          success: true,
+          message: 'No changes to promote',
+          plan,
+        });
+      } else {
+        console.log(`No changes to promote. ${target} matches ${source}.`);
+      }
+      process.exit(EXIT_SUCCESS);
+    }
+
+    // Show plan
+    if (options.json && options.dryRun) {
+      printJson(plan);
+      process.exit(EXIT_SUCCESS);
+    }
+
+    if (!options.json) {
+      const useColors = !process.env['NO_COLOR'] && process.env['FORCE_COLOR'] !== '0';
+      console.log(formatPlan(plan, { colors: useColors }));
+      console.log('');
+    }
+
+    if (options.dryRun) {
+      process.exit(EXIT_SUCCESS);
+    }
+
+    // --json cannot prompt, so production changes require --yes
+    if (!options.yes && options.json && targetConfig.environment?.production) {
+      printJson({
+        error: 'confirmation_required',
+        message: 'Use --yes with --json to promote to a production environment',
+      });
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Confirm unless --yes
+    if (!options.yes && !options.json) {
+      const totalChanges = plan.summary.creates + plan.summary.updates;
+      const environment = targetConfig.environment;
+
+      // Production environments require typing the environment name
+      const confirmed = environment?.production
+        ? await confirmTyped(
+            `You are about to promote ${totalChanges} configuration change(s) to PRODUCTION (${target}).\n` +
+              `Type the environment name '${target}' to confirm:`,
+            target
+          )
+        : await confirm(`Promote ${totalChanges} configuration change(s) to ${target}?`, false);
+
+      if (!confirmed) {
+        console.log('\nPromote cancelled.');
+        process.exit(EXIT_SUCCESS);
+      }
+      console.log('');
+    }
+
+    // Apply promoted configurations
+    if (!options.json) {
+      console.log('Applying changes...\n');
+    }
+
+    const result = await applyConfigs(projectRoot, targetConfig, plan, {
+      payloads,
+      force: options.force,
+      atomic: options.atomic,
+      bulk: options.bulk,
+      concurrency: options.parallel,
+    });
+
+    // Output results
+    if (options.json) {
+      printJson({
+        success: result.success,
+        runId: result.runId,
+        results: result.results,
+        summary: result.summary,
+        warnings: result.warnings,
+      });
+    } else {
+      const useColors = !process.env['NO_COLOR'] && process.env['FORCE_COLOR'] !== '0';
+      console.log(formatApplyResult(result, useColors));
+      for (const warning of result.warnings ?? []) {
+        printWarning(warning);
+      }
+    }
+
+    // Exit with appropriate code
+    process.exit(result.success ? EXIT_SUCCESS : EXIT_PARTIAL_FAILURE);
+  } catch (error) {
+    // Handle validation errors
+    if (error instanceof PlanValidationError) {
+      if (options.json) {
+        printJson({
+          error: 'validation_error',
+          message: error.message,
+          details: error.errors,
+        });
+      } else {
+        printError('Validation failed. Fix the following errors before promoting:\n');
+        for (const e of error.errors) {
+          console.log(`  ${e.channel}: ${e.message}`);
+        }
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle API errors
+    if (error instanceof ApiError) {
+      if (options.json) {
+        printJson({
+          error: 'api_error',
+          message: error.message,
+          statusCode: error.statusCode,
+        });
+      } else {
+        printError(`API error (${error.statusCode}): ${error.message}`);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle config errors
+    if (error instanceof ProjectConfigError) {
+      if (options.json) {
+        printJson({ error: 'config_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle YAML errors
+    if (error instanceof YamlLoadError) {
+      const message = error.line
+        ? `${error.filePath}:${error.line}: ${error.message}`
+        : `${error.filePath}: ${error.message}`;
+
+      if (options.json) {
+        printJson({ error: 'yaml_error', message });
+      } else {
+        printError(message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Unknown error
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      printJson({ error: 'internal_error', message });
+    } else {
+      printError(`Unexpected error: ${message}`);
+    }
+    process.exit(EXIT_FATAL_ERROR);
+  }
+}
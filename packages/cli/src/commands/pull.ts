@@ -0,0 +1,151 @@
+import {
+  loadProjectConfig,
+  findProjectRoot,
+  pullConfigs,
+  optimizeProject,
+  formatOptimizeResult,
+  ProjectConfigError,
+  YamlLoadError,
+  ApiError,
+} from '@nco-control/core';
+import { printError, printSuccess, printWarning } from '../output/console.js';
+import { printJson } from '../output/json.js';
+
+/**
+ * Exit codes
+ */
+const EXIT_SUCCESS = 0;
+const EXIT_FATAL_ERROR = 2;
+
+/**
+ * Run pull command
+ */
+export async function runPull(options: {
+  channel?: string[];
+  force?: boolean;
+  optimize?: boolean;
+  json?: boolean;
+  env?: string;
+}): Promise<void> {
+  try {
+    // Find project root
+    const projectRoot = findProjectRoot(process.cwd());
+    if (!projectRoot) {
+      printError("Not in an nco-control project. Run 'ncoctl init' first.");
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Load project config
+    const config = await loadProjectConfig(projectRoot, { environment: options.env });
+
+    // Pull remote configurations
+    if (!options.json) {
+      console.log('Pulling remote configurations...\n');
+    }
+
+    const result = await pullConfigs(projectRoot, config, {
+      channels: options.channel,
+      force: options.force,
+    });
+
+    // Hoist shared fields into root configs
+    const optimizeResult = options.optimize
+      ? await optimizeProject(projectRoot, config)
+      : undefined;
+
+    // Output results
+    if (options.json) {
+      printJson(optimizeResult ? { ...result, optimize: optimizeResult } : result);
+    } else {
+      if (result.filesWritten.length > 0) {
+        console.log('Written:');
+        for (const file of result.filesWritten) {
+          console.log(`  - ${file}`);
+        }
+      }
+
+      if (result.secrets.length > 0) {
+        console.log(`\nSecrets (written to ${result.envFile}, referenced as \${VAR}):`);
+        for (const name of result.secrets) {
+          console.log(`  - ${name}`);
+        }
+      }
+
+      if (result.filesSkipped.length > 0) {
+        console.log('\nSkipped (already exist, use --force to overwrite):');
+        for (const file of result.filesSkipped) {
+          console.log(`  - ${file}`);
+        }
+      }
+
+      console.log('');
+      for (const warning of result.warnings) {
+        printWarning(warning);
+      }
+      if (result.filesSkipped.length > 0) {
+        printWarning(
+          `${result.filesSkipped.length} file(s) skipped. Run 'ncoctl plan' to review differences.`
+        );
+      } else {
+        printSuccess(
+          `Pulled ${result.filesWritten.length} configuration(s) from ${result.channels.length} channel(s).`
+        );
+      }
+
+      if (optimizeResult) {
+        const useColors = !process.env['NO_COLOR'] && process.env['FORCE_COLOR'] !== '0';
+        console.log('\nOptimizing configurations...\n');
+        console.log(formatOptimizeResult(optimizeResult, useColors));
+      }
+    }
+
+    process.exit(EXIT_SUCCESS);
+  } catch (error) {
+    // Handle API errors
+    if (error instanceof ApiError) {
+      if (options.json) {
+        printJson({
+          error: 'api_error',
+          message: error.message,
+          statusCode: error.statusCode,
+        });
+      } else {
+        printError(`API error (${error.statusCode}): ${error.message}`);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle config errors
+    if (error instanceof ProjectConfigError) {
+      if (options.json) {
+        printJson({ error: 'config_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle YAML errors
+    if (error instanceof YamlLoadError) {
+      const message = error.line
+        ? `${error.filePath}:${error.line}: ${error.message}`
+        : `${error.filePath}: ${error.message}`;
+
+      if (options.json) {
+        printJson({ error: 'yaml_error', message });
+      } else {
+        printError(message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Unknown error
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      printJson({ error: 'internal_error', message });
+    } else {
+      printError(`Unexpected error: ${message}`);
+    }
+    process.exit(EXIT_FATAL_ERROR);
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  loadProjectConfig,
+  findProjectRoot,
+  readBackup,
+  planRollback,
+  formatPlan,
+  planHasChanges,
+  applyConfigs,
+  formatApplyResult,
+  ProjectConfigError,
+  YamlLoadError,
+  ApiError,
+  BackupError,
+} from '@nco-control/core';
+import { printError, printWarning } from '../output/console.js';
+import { printJson } from '../output/json.js';
+import { confirm, confirmTyped } from '../output/prompt.js';
+
+/**
+ * Exit codes
+ */
+const EXIT_SUCCESS = 0;
+const EXIT_PARTIAL_FAILURE = 1;
+const EXIT_FATAL_ERROR = 2;
+
+/**
+ * Run rollback command
+ *
+ * Restores the remote state from before an apply run (the newest run by default).
+ */
+export async function runRollback(
+  runId: string | undefined,
+  options: {
+    force?: boolean;
+    yes?: boolean;
+    parallel?: number;
+    json?: boolean;
+    env?: string;
+  }
+): Promise<void> {
+  try {
+    // Find project root
+    const projectRoot = findProjectRoot(process.cwd());
+    if (!projectRoot) {
+      printError("Not in an nco-control project. Run 'ncoctl init' first.");
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // A backup is restored in the environment it was made for
+    const backup = await readBackup(projectRoot, runId);
+    const config = await loadProjectConfig(projectRoot, {
+      environment: options.env ?? backup.environment,
+    });
+
+    // Generate plan
+    if (!options.json) {
+      console.log(`Generating rollback plan for ${backup.runId}...\n`);
+    }
+
+    const { plan, payloads } = await planRollback(projectRoot, config, backup);
+
+    // Check if there are any changes
+    if (!planHasChanges(plan)) {
+      if (options.json) {
+        printJson({
+          success: true,
+          message: 'Nothing to roll back',
+          plan,
+        });
+      } else {
+        console.log('Nothing to roll back. The remote state already matches the backup.');
+      }
+      process.exit(EXIT_SUCCESS);
+    }
+
+    // Show plan
+    if (!options.json) {
+      const useColors = !process.env['NO_COLOR'] && process.env['FORCE_COLOR'] !== '0';
+      console.log(formatPlan(plan, { colors: useColors }));
+      console.log('');
+    }
+
+    // --json cannot prompt, so production changes require --yes
+    if (!options.yes && options.json && config.environment?.production) {
+      printJson({
+        error: 'confirmation_required',
+        message: 'Use --yes with --json to roll back in a production environment',
+      });
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Confirm unless --yes
+    if (!options.yes && !options.json) {
+      const totalChanges = plan.summary.creates + plan.summary.updates + plan.summary.deletes;
+      const deleteText =
+        plan.summary.deletes > 0 ? `, including ${plan.summary.deletes} deletion(s)` : '';
+      const environment = config.environment;
+
+      // Production environments require typing the environment name
+      const confirmed = environment?.production
+        ? await confirmTyped(
+            `You are about to roll back ${totalChanges} configuration change(s)${deleteText} in PRODUCTION (${environment.name}).\n` +
+              `Type the environment name '${environment.name}' to confirm:`,
+            environment.name
+          )
+        : await confirm(
+            `Roll back ${totalChanges} configuration change(s)${deleteText}` +
+              `${environment ? ` in ${environment.name}` : ''}?`,
+            false
+          );
+
+      if (!confirmed) {
+        console.log('\nRollback cancelled.');
+        process.exit(EXIT_SUCCESS);
+      }
+      console.log('');
+    }
+
+    // Restore the backed up configurations
+    if (!options.json) {
+      console.log('Applying changes...\n');
+    }
+
+    const result = await applyConfigs(projectRoot, config, plan, {
+      payloads,
+      force: options.force,
+      concurrency: options.parallel,
+    });
+
+    // Output results
+    if (options.json) {
+      printJson({
+        success: result.success,
+        runId: result.runId,
+        results: result.results,
+        summary: result.summary,
+        warnings: result.warnings,
+      });
+    } else {
+      const useColors = !process.env['NO_COLOR'] && process.env['FORCE_COLOR'] !== '0';
+      console.log(formatApplyResult(result, useColors));
+      for (const warning of result.warnings ?? []) {
+        printWarning(warning);
+      }
+    }
+
+    // Exit with appropriate code
+    process.exit(result.success ? EXIT_SUCCESS : EXIT_PARTIAL_FAILURE);
+  } catch (error) {
+    // Handle backup errors
+    if (error instanceof BackupError) {
+      if (options.json) {
+        printJson({ error: 'backup_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle API errors
+    if (error instanceof ApiError) {
+      if (options.json) {
+        printJson({
+          error: 'api_error',
+          message: error.message,
+          statusCode: error.statusCode,
+        });
+      } else {
+        printError(`API error (${error.statusCode}): ${error.message}`);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle config errors
+    if (error instanceof ProjectConfigError) {
+      if (options.json) {
+        printJson({ error: 'config_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Handle YAML errors
+    if (error instanceof YamlLoadError) {
+      const message = error.line
+        ? `${error.filePath}:${error.line}: ${error.message}`
+        : `${error.filePath}: ${error.message}`;
+
+      if (options.json) {
+        printJson({ error: 'yaml_error', message });
+      } else {
+        printError(message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
+    // Unknown error
+    const message = error instanceof Error ? error.message : String(error);
+    if (options.json) {
+      printJson({ error: 'internal_error', message });
+    } else {
+      printError(`Unexpected error: ${message}`);
+    }
+    process.exit(EXIT_FATAL_ERROR);
+  }
+}
@@ -2,8 +2,10 @@ import {
   loadProjectConfig,
   findProjectRoot,
   validateProject,
+  findChangedChannels,
   ProjectConfigError,
   YamlLoadError,
+  GitError,
 } from '@nco-control/core';
 import {
   printError,
@@ -23,7 +25,12 @@ const EXIT_FATAL_ERROR = 2;
 /**
  * Run validate command
  */
-export async function runValidate(options: { channel?: string; json?: boolean }): Promise<void> {
+export async function runValidate(options: {
+  channel?: string[];
+  changedSince?: string;
+  json?: boolean;
+  env?: string;
+}): Promise<void> {
   try {
     // Find project root
     const projectRoot = findProjectRoot(process.cwd());
@@ -33,16 +40,31 @@ export async function runValidate(options: { channel?: string; json?: boolean })
     }
 
     // Load project config
-    const config = await loadProjectConfig(projectRoot);
+    const config = await loadProjectConfig(projectRoot, { environment: options.env });
+
+    // Limit to channels affected by changes since a git revision
+    let channels = options.channel;
+    if (options.changedSince) {
+      channels = await findChangedChannels(projectRoot, config, options.changedSince, {
+        channels,
+      });
+      if (channels.length === 0) {
+        const message = `No channels changed since ${options.changedSince}`;
+        if (options.json) {
+          printJson({ success: true, message, channels: [] });
+        } else {
+          console.log(`${message}.`);
+        }
+        process.exit(EXIT_SUCCESS);
+      }
+    }
 
     // Run validation
     if (!options.json) {
       console.log('Validating configurations...\n');
     }
 
-    const result = await validateProject(projectRoot, config, {
-      channel: options.channel,
-    });
+    const result = await validateProject(projectRoot, config, { channels });
 
     // Output results
     if (options.json) {
@@ -79,6 +101,15 @@ export async function runValidate(options: { channel?: string; json?: boolean })
     process.exit(result.valid ? EXIT_SUCCESS : EXIT_VALIDATION_ERROR);
   } catch (error) {
     // Handle known error types
+    if (error instanceof GitError) {
+      if (options.json) {
+        printJson({ error: 'git_error', message: error.message });
+      } else {
+        printError(error.message);
+      }
+      process.exit(EXIT_FATAL_ERROR);
+    }
+
     if (error instanceof ProjectConfigError) {
       if (options.json) {
         printJson({ error: 'config_error', message: error.message });
@@ -3,6 +3,11 @@ export { runValidate } from './commands/validate.js';
 export { runPlan } from './commands/plan.js';
 export { runApply } from './commands/apply.js';
 export { runInit } from './commands/init.js';
+export { runDelete } from './commands/delete.js';
+export { runPromote } from './commands/promote.js';
+export { runCompare } from './commands/compare.js';
+export { runPull } from './commands/pull.js';
+export { runOptimize } from './commands/optimize.js';
 
 // Output utilities
 export {
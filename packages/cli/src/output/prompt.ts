@@ -60,3 +60,24 @@ export async function confirmDestructiveAction(
   const message = `This will ${actionDescription} ${itemCount} configuration(s). Continue?`;
   return confirm(message, false);
 }
+
+/**
+ * Ask the user to type an exact value to confirm an action
+ *
+ * @param message - The prompt message
+ * @param expected - Value the user must type
+ * @returns Promise resolving to true if the typed value matches
+ */
+export async function confirmTyped(message: string, expected: string): Promise<boolean> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+
+  return new Promise<boolean>((resolve) => {
+    rl.question(`${message} `, (answer) => {
+      rl.close();
+      resolve(answer.trim() === expected);
+    });
+  });
+}
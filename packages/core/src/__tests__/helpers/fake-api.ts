@@ -0,0 +1,182 @@
+import { vi } from 'vitest';
+
+/**
+ * Base URL the fake API answers on
+ */
+export const FAKE_API_URL = 'https://configuration.example.com';
+
+/**
+ * Remote configurations by channel, then by configuration id
+ */
+export type RemoteData = Record<string, Record<string, Record<string, unknown>>>;
+
+/**
+ * A request received by the fake API
+ */
+export interface FakeApiRequest {
+  method: string;
+  /** Path after `/channels`, e.g. `/sweden/configurations/norce_adapter` */
+  path: string;
+  body?: unknown;
+}
+
+/**
+ * In-memory Configuration API that replaces the global `fetch`
+ */
+export interface FakeApi {
+  /** Current remote state */
+  channels: Map<string, Map<string, Record<string, unknown>>>;
+  /** Requests received, in order */
+  requests: FakeApiRequest[];
+  /**
+   * Fail requests with a method whose path ends with a suffix; status 0
+   * throws a network error instead of responding
+   */
+  fail(method: string, pathSuffix: string, status?: number): void;
+  /** Call a function before answering a request (e.g., to change the remote state) */
+  onRequest(handler: (request: FakeApiRequest) => void): void;
+  /** Remote state as plain objects */
+  snapshot(): RemoteData;
+  /** Put the original `fetch` back */
+  restore(): void;
+}
+
+const PATH_PATTERN =
+  /^\/api\/v1\/configuration\/merchants\/[^/]+\/channels(?:\/([^/]+)\/configurations(?:\/([^/]+))?)?$/;
+
+/**
+ * Replace the global `fetch` with an in-memory Configuration API
+ *
+ * With a base URL, only requests to that origin are answered and others are
+ * passed on, so several fake APIs can stand in for several environments.
+ *
+ * @param initial - Initial remote state
+ * @param baseUrl - Origin to answer (default: any)
+ * @returns Fake API
+ */
+export function createFakeApi(initial: RemoteData = {}, baseUrl?: string): FakeApi {
+  const channels = new Map<string, Map<string, Record<string, unknown>>>();
+  for (const [channel, configs] of Object.entries(initial)) {
+    channels.set(channel, new Map(Object.entries(structuredClone(configs))));
+  }
+
+  const requests: FakeApiRequest[] = [];
+  const failures: Array<{ method: string; pathSuffix: string; status: number }> = [];
+  const handlers: Array<(request: FakeApiRequest) => void> = [];
+
+  const respond = (status: number, body?: unknown): Response =>
+    new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+
+  const answer = (input: string | URL | Request, init: RequestInit = {}): Response => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+    const method = init.method ?? 'GET';
+    const match = PATH_PATTERN.exec(url.pathname);
+    if (!match) {
+      return respond(404, { title: 'Not found' });
+    }
+
+    const channel = match[1] !== undefined ? decodeURIComponent(match[1]) : undefined;
+    const config = match[2] !== undefined ? decodeURIComponent(match[2]) : undefined;
+    const body: unknown = typeof init.body === 'string' ? JSON.parse(init.body) : undefined;
+    const request: FakeApiRequest = {
+      method,
+      path: url.pathname.replace(/^.*\/channels/, ''),
+      body,
+    };
+    requests.push(request);
+    for (const handler of handlers) {
+      handler(request);
+    }
+
+    const failure = failures.find(
+      (f) => f.method === method && request.path.endsWith(f.pathSuffix)
+    );
+    if (failure) {
+      if (failure.status === 0) {
+        throw new TypeError('fetch failed');
+      }
+      return respond(failure.status, { title: 'Injected failure' });
+    }
+
+    if (channel === undefined) {
+      return respond(200, [...channels.keys()]);
+    }
+
+    const configs = channels.get(channel);
+    if (config === undefined) {
+      if (method === 'GET') {
+        return configs ? respond(200, [...configs.values()]) : respond(404, { title: 'Not found' });
+      }
+      if (method === 'PUT') {
+        const target = configs ?? new Map<string, Record<string, unknown>>();
+        for (const item of body as Array<Record<string, unknown>>) {
+          target.set(String(item['id']), item);
+        }
+        channels.set(channel, target);
+        return respond(200);
+      }
+      if (method === 'DELETE') {
+        channels.delete(channel);
+        return respond(204);
+      }
+    } else {
+      if (method === 'GET') {
+        const found = configs?.get(config);
+        return found ? respond(200, found) : respond(404, { title: 'Not found' });
+      }
+      if (method === 'PUT') {
+        const target = configs ?? new Map<string, Record<string, unknown>>();
+        target.set(config, body as Record<string, unknown>);
+        channels.set(channel, target);
+        return respond(200);
+      }
+      if (method === 'DELETE') {
+        if (!configs?.delete(config)) {
+          return respond(404, { title: 'Not found' });
+        }
+        if (configs.size === 0) {
+          channels.delete(channel);
+        }
+        return respond(204);
+      }
+    }
+    return respond(405, { title: 'Method not allowed' });
+  };
+
+  const origin = baseUrl === undefined ? undefined : new URL(baseUrl).origin;
+  const next = globalThis.fetch;
+  vi.stubGlobal(
+    'fetch',
+    vi.fn((input: string | URL | Request, init?: RequestInit) => {
+      const url = typeof input === 'string' || input instanceof URL ? input : input.url;
+      if (origin !== undefined && new URL(url).origin !== origin) {
+        return next(input, init);
+      }
+      return Promise.resolve().then(() => answer(input, init));
+    })
+  );
+
+  return {
+    channels,
+    requests,
+    fail(method, pathSuffix, status = 500) {
+      failures.push({ method, pathSuffix, status });
+    },
+    onRequest(handler) {
+      handlers.push(handler);
+    },
+    snapshot() {
+      const data: RemoteData = {};
+      for (const [channel, configs] of channels) {
+        data[channel] = structuredClone(Object.fromEntries(configs));
+      }
+      return data;
+    },
+    restore() {
+      vi.unstubAllGlobals();
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import yaml from 'js-yaml';
+import { FAKE_API_URL } from './fake-api.js';
+
+/**
+ * Project settings written when a test does not pass its own
+ */
+export const DEFAULT_PROJECT_CONFIG = {
+  merchant: 'test-merchant',
+  api: { baseUrl: FAKE_API_URL, token: 'test-token' },
+  schema: { skip: true },
+};
+
+/**
+ * Create a project in a new temporary directory
+ *
+ * @param files - File contents by path relative to the project root; objects
+ *   are written as YAML, strings as they are
+ * @param projectConfig - Contents of `ncoctl.config.yaml`
+ * @returns Project root directory
+ */
+export async function createTestProject(
+  files: Record<string, unknown> = {},
+  projectConfig: Record<string, unknown> = DEFAULT_PROJECT_CONFIG
+): Promise<string> {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'ncoctl-test-'));
+  await writeTestFiles(dir, { 'ncoctl.config.yaml': projectConfig, ...files });
+  return dir;
+}
+
+/**
+ * Write files into a test project
+ */
+export async function writeTestFiles(dir: string, files: Record<string, unknown>): Promise<void> {
+  for (const [relativePath, content] of Object.entries(files)) {
+    const filePath = path.join(dir, relativePath);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(
+      filePath,
+      typeof content === 'string' ? content : yaml.dump(content),
+      'utf-8'
+    );
+  }
+}
+
+/**
+ * Read a YAML file of a test project
+ */
+export async function readTestYaml(dir: string, relativePath: string): Promise<unknown> {
+  return yaml.load(await fs.promises.readFile(path.join(dir, relativePath), 'utf-8'));
+}
+
+/**
+ * Remove a test project
+ */
+export async function cleanupTestProject(dir: string): Promise<void> {
+  await fs.promises.rm(dir, { recursive: true, force: true });
+}
@@ -95,6 +95,38 @@ export class ConfigurationApiClient {
     });
   }
 
+  /**
+   * Create or update several configurations of a channel in one request
+   *
+   * Configurations are identified by their `id`. Configurations not in the
+   * request are left unchanged.
+   */
+  async putConfigs(channel: string, configs: Record<string, unknown>[]): Promise<void> {
+    const url = `${this.baseUrl}/api/v1/configuration/merchants/${this.merchant}/channels/${channel}/configurations`;
+    await this.request(url, {
+      method: 'PUT',
+      body: JSON.stringify(configs),
+    });
+  }
+
+  /**
+   * Delete a configuration
+   *
+   * The API removes the channel as well if this was its last configuration.
+   */
+  async deleteConfig(channel: string, configName: string): Promise<void> {
+    const url = `${this.baseUrl}/api/v1/configuration/merchants/${this.merchant}/channels/${channel}/configurations/${configName}`;
+    await this.request(url, { method: 'DELETE' });
+  }
+
+  /**
+   * Delete all configurations of a channel, and the channel itself
+   */
+  async deleteChannel(channel: string): Promise<void> {
+    const url = `${this.baseUrl}/api/v1/configuration/merchants/${this.merchant}/channels/${channel}/configurations`;
+    await this.request(url, { method: 'DELETE' });
+  }
+
   /**
    * Make an authenticated API request
    */
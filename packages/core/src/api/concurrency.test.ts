@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { mapConcurrent, resolveConcurrency, DEFAULT_CONCURRENCY } from './concurrency.js';
+import type { ProjectConfig } from '../types/index.js';
+
+/**
+ * Resolve after a number of event loop turns, to let calls finish out of order
+ */
+async function turns(count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+describe('mapConcurrent', () => {
+  it('keeps results in item order when calls finish out of order', async () => {
+    const results = await mapConcurrent([3, 1, 2], 3, async (n) => {
+      await turns(n);
+      return n * 10;
+    });
+
+    expect(results).toEqual([30, 10, 20]);
+  });
+
+  it('runs at most limit calls at the same time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapConcurrent([1, 2, 3, 4, 5, 6], 2, async (n) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await turns(n % 3);
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('stops starting calls after a failure and throws the first failed item', async () => {
+    const started: number[] = [];
+
+    const result = mapConcurrent([1, 2, 3, 4, 5], 2, async (n) => {
+      started.push(n);
+      await turns(n === 1 ? 2 : 1);
+      if (n === 1 || n === 2) {
+        throw new Error(`item ${n}`);
+      }
+      return n;
+    });
+
+    await expect(result).rejects.toThrow('item 1');
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('treats a limit below one as one', async () => {
+    expect(await mapConcurrent([1, 2], 0, (n) => Promise.resolve(n))).toEqual([1, 2]);
+  });
+});
+
+describe('resolveConcurrency', () => {
+  const config = (concurrency?: number): ProjectConfig =>
+    ({
+      merchant: 'test-merchant',
+      api: { baseUrl: 'https://example.com', concurrency },
+    }) as ProjectConfig;
+
+  it('prefers the command line, then the project config, then the default', () => {
+    expect(resolveConcurrency(config(4), 8)).toBe(8);
+    expect(resolveConcurrency(config(4))).toBe(4);
+    expect(resolveConcurrency(config())).toBe(DEFAULT_CONCURRENCY);
+  });
+});
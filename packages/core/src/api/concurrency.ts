@@ -0,0 +1,59 @@
+import type { ProjectConfig } from '../types/index.js';
+
+/**
+ * Default number of channels or configurations handled at the same time
+ */
+export const DEFAULT_CONCURRENCY = 1;
+
+/**
+ * Resolve how many channels or configurations may be handled at the same time
+ *
+ * @param config - Project configuration (`api.concurrency`)
+ * @param override - Value given on the command line (`--parallel`), if any
+ * @returns Concurrency limit
+ */
+export function resolveConcurrency(config: ProjectConfig, override?: number): number {
+  return override ?? config.api.concurrency ?? DEFAULT_CONCURRENCY;
+}
+
+/**
+ * Map items with an async function, running at most `limit` calls at a time
+ *
+ * Results are in the order of the items, whatever order the calls finish in.
+ * After a call fails no new calls are started; once the running ones have
+ * settled, the error of the first failed item is thrown.
+ *
+ * @param items - Items to map
+ * @param limit - Maximum number of calls running at the same time
+ * @param fn - Async function to call for each item
+ * @returns Results in item order
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const failures: Array<{ index: number; error: unknown }> = [];
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length && failures.length === 0) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]!);
+      } catch (error) {
+        failures.push({ index, error });
+      }
+    }
+  };
+
+  const workers = Math.min(Math.max(limit, 1), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  if (failures.length > 0) {
+    throw failures.reduce((first, failure) => (failure.index < first.index ? failure : first))
+      .error;
+  }
+  return results;
+}
@@ -0,0 +1,201 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { applyConfigs } from './service.js';
+import { loadProjectConfig } from '../config/project.js';
+import { BACKUPS_DIR, listBackups } from '../backup/store.js';
+import { HISTORY_FILE } from '../history/log.js';
+import { createFakeApi, type FakeApi, type RemoteData } from '../__tests__/helpers/fake-api.js';
+import {
+  createTestProject,
+  cleanupTestProject,
+  writeTestFiles,
+} from '../__tests__/helpers/project.js';
+
+const REMOTE: RemoteData = {
+  sweden: {
+    adyen_checkout: { id: 'adyen_checkout', timeout: 10 },
+    klarna_checkout: { id: 'klarna_checkout', timeout: 10 },
+  },
+};
+
+describe('applyConfigs', () => {
+  let projectDir: string;
+  let api: FakeApi;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject({
+      'sweden/adyen_checkout.yaml': { id: 'adyen_checkout', timeout: 30 },
+      'sweden/klarna_checkout.yaml': { id: 'klarna_checkout', timeout: 30 },
+    });
+    api = createFakeApi(REMOTE);
+  });
+
+  afterEach(async () => {
+    api.restore();
+    await cleanupTestProject(projectDir);
+  });
+
+  it('warns instead of failing when the run cannot be recorded in the history', async () => {
+    // A directory in place of the history file makes appending to it fail
+    await fs.promises.mkdir(path.join(projectDir, HISTORY_FILE), { recursive: true });
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await applyConfigs(projectDir, config);
+
+    expect(result.success).toBe(true);
+    expect(result.warnings).toEqual([
+      expect.stringContaining('Could not record the run in the history'),
+    ]);
+    expect(api.snapshot()['sweden']?.['klarna_checkout']?.['timeout']).toBe(30);
+  });
+
+  describe('atomic', () => {
+    it('restores the configurations a failed channel already wrote', async () => {
+      api.fail('PUT', '/klarna_checkout');
+      const config = await loadProjectConfig(projectDir);
+
+      const result = await applyConfigs(projectDir, config, undefined, { atomic: 'channel' });
+
+      expect(result.success).toBe(false);
+      expect(result.summary).toMatchObject({ succeeded: 0, failed: 1, rolledBack: 1 });
+      expect(result.results[0]).toMatchObject({ config: 'adyen_checkout', rolledBack: true });
+      expect(api.snapshot()).toEqual(REMOTE);
+    });
+
+    it('restores a configuration that failed after it was written', async () => {
+      // Make recording the backup entry fail once the first configuration was PUT
+      api.onRequest((request) => {
+        if (request.method !== 'PUT' || !request.path.endsWith('/adyen_checkout')) return;
+        const backupsDir = path.join(projectDir, BACKUPS_DIR);
+        for (const runId of fs.readdirSync(backupsDir)) {
+          fs.rmSync(path.join(backupsDir, runId), { recursive: true });
+          fs.writeFileSync(path.join(backupsDir, runId), '');
+        }
+      });
+      const config = await loadProjectConfig(projectDir);
+
+      const result = await applyConfigs(projectDir, config, undefined, { atomic: 'channel' });
+
+      expect(result.success).toBe(false);
+      expect(result.results[0]).toMatchObject({
+        config: 'adyen_checkout',
+        success: false,
+        rolledBack: true,
+      });
+      expect(result.results[1]).toMatchObject({ config: 'klarna_checkout', success: false });
+      expect(api.snapshot()).toEqual(REMOTE);
+    });
+  });
+
+  describe('bulk', () => {
+    const UPDATED: RemoteData = {
+      sweden: {
+        adyen_checkout: { id: 'adyen_checkout', timeout: 30 },
+        klarna_checkout: { id: 'klarna_checkout', timeout: 30 },
+      },
+    };
+    const puts = (): string[] => api.requests.filter((r) => r.method === 'PUT').map((r) => r.path);
+
+    it("sends a channel's updates in one request", async () => {
+      const config = await loadProjectConfig(projectDir);
+
+      const result = await applyConfigs(projectDir, config, undefined, { bulk: true });
+
+      expect(result.summary.succeeded).toBe(2);
+      expect(puts()).toEqual(['/sweden/configurations']);
+      expect(api.snapshot()).toEqual(UPDATED);
+    });
+
+    it('falls back to single requests without backing up again', async () => {
+      api.fail('PUT', '/sweden/configurations', 400);
+      const config = await loadProjectConfig(projectDir);
+
+      const result = await applyConfigs(projectDir, config, undefined, { bulk: true });
+
+      expect(result.summary.succeeded).toBe(2);
+      expect(puts()).toEqual([
+        '/sweden/configurations',
+        '/sweden/configurations/adyen_checkout',
+        '/sweden/configurations/klarna_checkout',
+      ]);
+      expect(
+        api.requests.filter((r) => r.method === 'GET' && r.path.includes('/configurations/'))
+      ).toHaveLength(2);
+      expect((await listBackups(projectDir))[0]?.entries).toHaveLength(2);
+      expect(api.snapshot()).toEqual(UPDATED);
+    });
+
+    it('does not retry a bulk request that got no answer', async () => {
+      api.fail('PUT', '/sweden/configurations', 0);
+      const config = await loadProjectConfig(projectDir);
+
+      const result = await applyConfigs(projectDir, config, undefined, { bulk: true });
+
+      expect(result.summary.failed).toBe(2);
+      expect(result.results[0]?.error).toBe('fetch failed');
+      expect(puts()).toEqual(['/sweden/configurations']);
+    });
+
+    it('restores a channel that failed after the bulk request was written', async () => {
+      api.onRequest((request) => {
+        if (request.method !== 'PUT' || request.path !== '/sweden/configurations') return;
+        const backupsDir = path.join(projectDir, BACKUPS_DIR);
+        for (const runId of fs.readdirSync(backupsDir)) {
+          fs.rmSync(path.join(backupsDir, runId), { recursive: true });
+          fs.writeFileSync(path.join(backupsDir, runId), '');
+        }
+      });
+      const config = await loadProjectConfig(projectDir);
+
+      const result = await applyConfigs(projectDir, config, undefined, {
+        bulk: true,
+        atomic: 'channel',
+      });
+
+      expect(result.summary.rolledBack).toBe(2);
+      expect(api.snapshot()).toEqual(REMOTE);
+    });
+  });
+
+  describe('configurations whose id differs from their file name', () => {
+    beforeEach(async () => {
+      await fs.promises.rm(path.join(projectDir, 'sweden/adyen_checkout.yaml'));
+      await writeTestFiles(projectDir, {
+        'sweden/adyen.yaml': { id: 'adyen_checkout', timeout: 30 },
+      });
+    });
+
+    it.each([{ bulk: false }, { bulk: true }])(
+      'writes and backs up the remote configuration by id (%o)',
+      async (options) => {
+        const config = await loadProjectConfig(projectDir);
+
+        const result = await applyConfigs(projectDir, config, undefined, options);
+
+        expect(result.success).toBe(true);
+        expect(result.results.map((r) => r.config)).toEqual(['adyen', 'klarna_checkout']);
+        expect(api.snapshot()['sweden']).toEqual({
+          adyen_checkout: { id: 'adyen_checkout', timeout: 30 },
+          klarna_checkout: { id: 'klarna_checkout', timeout: 30 },
+        });
+        expect(
+          api.requests.some((r) => r.method === 'PUT' && r.path === '/sweden/configurations')
+        ).toBe(options.bulk);
+        const [backup] = await listBackups(projectDir);
+        expect(backup?.entries.map((e) => e.config)).toEqual(['adyen_checkout', 'klarna_checkout']);
+      }
+    );
+
+    it('restores the remote configuration by id when an atomic channel fails', async () => {
+      api.fail('PUT', '/klarna_checkout');
+      const config = await loadProjectConfig(projectDir);
+
+      const result = await applyConfigs(projectDir, config, undefined, { atomic: 'channel' });
+
+      expect(result.success).toBe(false);
+      expect(result.results[0]).toMatchObject({ config: 'adyen', rolledBack: true });
+      expect(api.snapshot()).toEqual(REMOTE);
+    });
+  });
+});
@@ -1,9 +1,26 @@
 import type { ProjectConfig, ApplyResult, ConfigApplyResult, Channel } from '../types/index.js';
 import type { Plan } from '../plan/types.js';
 import { generatePlan, getConfigsToApply } from '../plan/service.js';
+import {
+  fetchRemoteState,
+  fingerprintConfig,
+  fingerprintRemoteState,
+} from '../plan/fingerprint.js';
+import { SavedPlanError, type SavedPlan } from '../plan/saved.js';
+import { writeAppliedState, removeAppliedState } from '../state/store.js';
+import {
+  createBackup,
+  backupConfig,
+  recordBackupEntry,
+  type BackupManifest,
+} from '../backup/store.js';
+import { recordApplyRun } from '../history/log.js';
 import { ConfigurationApiClient, ApiError } from '../api/client.js';
-import { getEnvironment } from '../secrets/env.js';
+import { mapConcurrent, resolveConcurrency } from '../api/concurrency.js';
+import { getEnvironment, resolveApiToken } from '../secrets/env.js';
 import { discoverChannels } from '../config/discovery.js';
+import { getOverlayDirectories } from '../config/project.js';
+import { selectChannels } from '../config/patterns.js';
 import { loadAllChannelConfigs } from '../config/loader.js';
 import { substituteSecrets, MissingEnvVarError } from '../secrets/substitute.js';
 
@@ -11,15 +28,46 @@ import { substituteSecrets, MissingEnvVarError } from '../secrets/substitute.js'
  * Options for apply operation
  */
 export interface ApplyOptions {
-  /** Only apply to specific channel */
-  channel?: string;
+  /** Only apply to channels matching these names or glob patterns */
+  channels?: string[];
+  /** Delete remote configurations that have no local file */
+  prune?: boolean;
   /** Skip confirmation (equivalent to --yes) */
   skipConfirmation?: boolean;
+  /** Payloads to apply instead of local configs, keyed by `<channel>/<config>` (e.g., from promote) */
+  payloads?: Map<string, Record<string, unknown>>;
+  /** Overwrite remote configurations that changed since the plan was made */
+  force?: boolean;
+  /** Send each channel's creates and updates in one bulk request (falls back to single PUTs) */
+  bulk?: boolean;
+  /**
+   * Undo the changes of a channel (or of the whole run) when one of its
+   * configurations fails, restoring the previous remote payloads
+   */
+  atomic?: 'channel' | 'run';
+  /**
+   * Scopes (configurations, or channels in atomic and bulk mode) applied at the
+   * same time (default: `api.concurrency` from the project config)
+   */
+  concurrency?: number;
 }
 
 /**
  * Apply local configurations to remote API
  *
+ * Before each PUT or DELETE the remote configuration is fetched again and
+ * compared to the state the plan was built from. If it changed, the
+ * configuration is reported as a conflict and left alone, unless `force` is set.
+ * The previous remote configuration is backed up under `.ncoctl/backups/<run-id>/`
+ * so the run can be undone with `planRollback`.
+ *
+ * In atomic mode, a failure stops the rest of its channel (or run) and the
+ * configurations it already wrote are restored to their previous payloads.
+ *
+ * Up to `concurrency` configurations (or channels, in atomic and bulk mode) are
+ * applied at the same time; `atomic: 'run'` always applies one at a time. The
+ * results are in plan order either way.
+ *
  * @param projectDir - Project root directory
  * @param config - Project configuration
  * @param plan - Pre-generated plan (optional - will generate if not provided)
@@ -35,7 +83,9 @@ export async function applyConfigs(
   // Generate plan if not provided
   if (!plan) {
     plan = await generatePlan(projectDir, config, {
-      channel: options.channel,
+      channels: options.channels,
+      prune: options.prune,
+      concurrency: options.concurrency,
     });
   }
 
@@ -50,19 +100,16 @@ export async function applyConfigs(
       summary: {
         succeeded: 0,
         failed: 0,
+        conflicts: 0,
+        rolledBack: 0,
         skipped: plan.summary.unchanged,
       },
     };
   }
 
   // Load environment and get token
-  const env = await getEnvironment(projectDir);
-  const token = env['NCO_API_TOKEN'] ?? config.api.token;
-  if (!token) {
-    throw new Error(
-      'API token required. Set NCO_API_TOKEN environment variable or api.token in config.'
-    );
-  }
+  const env = await getEnvironment(projectDir, config.environment);
+  const token = resolveApiToken(env, config);
 
   // Create API client
   const client = new ConfigurationApiClient({
@@ -71,72 +118,578 @@ export async function applyConfigs(
     merchant: config.merchant,
   });
 
-  // Load channels with substituted secrets
-  let channels = await discoverChannels(projectDir);
-  if (options.channel) {
-    channels = channels.filter((ch) => ch.name === options.channel);
-  }
-  channels = await loadAllChannelConfigs(channels, projectDir);
-  const channelsWithSecrets = substituteSecretsInChannels(channels, env);
-
   // Build a map of config content by channel/name for quick lookup
-  const configMap = buildConfigMap(channelsWithSecrets);
+  const configMap = options.payloads ?? (await loadConfigMap(projectDir, config, env, options));
 
-  // Apply each config
-  const results: ConfigApplyResult[] = [];
-  let succeeded = 0;
-  let failed = 0;
+  const backup = createBackup(config, plan.rollbackOf);
 
-  for (const toApply of configsToApply) {
-    const configKey = `${toApply.channel}/${toApply.configName}`;
-    const configContent = configMap.get(configKey);
+  const context: ApplyContext = {
+    projectDir,
+    config,
+    client,
+    backup,
+    configMap,
+    force: options.force ?? false,
+    fingerprintSalt: plan.fingerprintSalt ?? '',
+  };
 
-    if (!configContent) {
-      results.push({
-        channel: toApply.channel,
-        config: toApply.configName,
-        success: false,
-        error: 'Configuration content not found',
-      });
-      failed++;
-      continue;
-    }
+  // Apply the scopes (configs, or channels or the whole run in atomic mode),
+  // several at a time up to the concurrency limit
+  const scopeResults = await mapConcurrent(
+    groupIntoScopes(configsToApply, options),
+    resolveConcurrency(config, options.concurrency),
+    (scope) => applyScope(context, scope, options)
+  );
+  const results = scopeResults.flat();
 
-    try {
-      await client.putConfig(toApply.channel, toApply.configName, configContent);
-      results.push({
-        channel: toApply.channel,
-        config: toApply.configName,
-        success: true,
-      });
+  let succeeded = 0;
+  let failed = 0;
+  let conflicts = 0;
+  let rolledBack = 0;
+  for (const r of results) {
+    if (r.rolledBack) {
+      rolledBack++;
+    } else if (r.rollbackError) {
+      failed++;
+    } else if (r.success) {
       succeeded++;
-    } catch (error) {
-      const errorMessage =
-        error instanceof ApiError
-          ? `API error (${error.statusCode}): ${error.message}`
-          : error instanceof Error
-            ? error.message
-            : String(error);
-
-      results.push({
-        channel: toApply.channel,
-        config: toApply.configName,
-        success: false,
-        error: errorMessage,
-      });
+    } else if (r.conflict) {
+      conflicts++;
+    } else {
       failed++;
     }
   }
 
-  return {
-    success: failed === 0,
+  const result: ApplyResult = {
+    success: failed === 0 && conflicts === 0,
+    runId: backup.entries.length > 0 ? backup.runId : undefined,
     results,
     summary: {
       succeeded,
       failed,
+      conflicts,
+      rolledBack,
       skipped: plan.summary.unchanged,
     },
   };
+
+  // Append the run to the audit log. Like the last-applied state, this is a record
+  // of what happened, so failing to write it does not fail the apply. Unlike the
+  // state, a missing audit entry is reported.
+  await recordApplyRun(projectDir, config, plan, result).catch((error: unknown) => {
+    result.warnings = [`Could not record the run in the history: ${formatError(error)}`];
+  });
+
+  return result;
+}
+
+/**
+ * A configuration to apply, as listed by `getConfigsToApply`
+ */
+type ConfigToApply = ReturnType<typeof getConfigsToApply>[number];
+
+/**
+ * Id of the remote configuration a configuration is applied to
+ *
+ * Remote reads, writes, backups and restores all use this id; results and the
+ * last-applied state keep the local file name, as in the plan.
+ */
+function remoteIdOf(toApply: ConfigToApply): string {
+  return toApply.remoteId ?? toApply.configName;
+}
+
+/**
+ * Everything needed to apply configurations during a run
+ */
+interface ApplyContext {
+  projectDir: string;
+  config: ProjectConfig;
+  client: ConfigurationApiClient;
+  backup: BackupManifest;
+  configMap: Map<string, Record<string, unknown>>;
+  force: boolean;
+  fingerprintSalt: string;
+}
+
+/**
+ * Outcome of applying a configuration, with its remote state from before
+ * (null if it did not exist, or is unknown because applying failed before
+ * reading it)
+ */
+interface AppliedConfig {
+  toApply: ConfigToApply;
+  result: ConfigApplyResult;
+  previous: Record<string, unknown> | null;
+  /** Whether the remote write returned, so undoing the scope must restore it */
+  written: boolean;
+}
+
+/**
+ * Group configurations into scopes that are applied (and in atomic mode,
+ * succeed or fail) together
+ *
+ * Without atomic or bulk mode, every configuration is its own scope.
+ */
+function groupIntoScopes(
+  configsToApply: ConfigToApply[],
+  options: Pick<ApplyOptions, 'atomic' | 'bulk'>
+): ConfigToApply[][] {
+  if (options.atomic === 'run') {
+    return [configsToApply];
+  }
+  if (options.atomic === 'channel' || options.bulk) {
+    const scopes = new Map<string, ConfigToApply[]>();
+    for (const toApply of configsToApply) {
+      scopes.set(toApply.channel, [...(scopes.get(toApply.channel) ?? []), toApply]);
+    }
+    return [...scopes.values()];
+  }
+  return configsToApply.map((toApply) => [toApply]);
+}
+
+/**
+ * Apply the configurations of a scope one step after another
+ *
+ * In atomic mode, a failure stops the rest of the scope and the configurations
+ * it already wrote are restored.
+ *
+ * @returns Results in the order of the scope
+ */
+async function applyScope(
+  context: ApplyContext,
+  scope: ConfigToApply[],
+  options: Pick<ApplyOptions, 'atomic' | 'bulk'>
+): Promise<ConfigApplyResult[]> {
+  const results: ConfigApplyResult[] = [];
+  const written: AppliedConfig[] = [];
+  let scopeFailed = false;
+
+  for (const step of groupIntoSteps(scope, options.bulk ?? false)) {
+    // After a failure in an atomic scope, the rest of the scope is not applied
+    if (scopeFailed) {
+      for (const toApply of step) {
+        results.push({
+          channel: toApply.channel,
+          config: toApply.configName,
+          success: false,
+          error:
+            options.atomic === 'run'
+              ? 'Not applied: another configuration in the run failed'
+              : `Not applied: another configuration in channel '${toApply.channel}' failed`,
+        });
+      }
+      continue;
+    }
+
+    const applied =
+      step.length > 1 ? await applyBatch(context, step) : [await applyConfig(context, step[0]!)];
+
+    for (const entry of applied) {
+      results.push(entry.result);
+      if (entry.written) {
+        written.push(entry);
+      }
+      if (!entry.result.success) {
+        scopeFailed = options.atomic !== undefined;
+      }
+    }
+  }
+
+  // Restore what the failed scope already wrote
+  if (scopeFailed && written.length > 0) {
+    await restoreConfigs(context, written);
+  }
+  return results;
+}
+
+/**
+ * Split a scope into steps: in bulk mode, consecutive creates and updates of
+ * a channel form one step; otherwise every configuration is its own step
+ */
+function groupIntoSteps(scope: ConfigToApply[], bulk: boolean): ConfigToApply[][] {
+  const steps: ConfigToApply[][] = [];
+  const batchable = (toApply: ConfigToApply | undefined): toApply is ConfigToApply =>
+    bulk && toApply !== undefined && toApply.status !== 'delete';
+
+  for (const toApply of scope) {
+    const last = steps[steps.length - 1];
+    if (last && batchable(toApply) && batchable(last[0]) && last[0].channel === toApply.channel) {
+      last.push(toApply);
+    } else {
+      steps.push([toApply]);
+    }
+  }
+  return steps;
+}
+
+/**
+ * Apply the creates and updates of a channel with one bulk request
+ *
+ * Configurations that changed remotely since planning are left out as
+ * conflicts. If the API rejects the bulk request, the configurations are
+ * applied one by one instead, with the remote state they were already checked
+ * and backed up with. If the request gets no answer, they are reported as
+ * failed and not retried. Configurations without an `id` in their payload
+ * are always applied one by one, since the bulk endpoint identifies
+ * configurations by `id`.
+ *
+ * @returns Outcomes in the order of the batch
+ */
+async function applyBatch(context: ApplyContext, batch: ConfigToApply[]): Promise<AppliedConfig[]> {
+  const { projectDir, config, client, backup, configMap } = context;
+  const channel = batch[0]!.channel;
+  const outcomes = new Map<ConfigToApply, AppliedConfig>();
+  const pending: Array<{
+    toApply: ConfigToApply;
+    payload: Record<string, unknown>;
+    previous: Record<string, unknown> | null;
+  }> = [];
+
+  try {
+    for (const toApply of batch) {
+      const payload = configMap.get(`${channel}/${toApply.configName}`);
+      if (!payload || payload['id'] !== remoteIdOf(toApply)) continue;
+
+      const previous = await client.getConfig(channel, remoteIdOf(toApply));
+      if (
+        toApply.remoteFingerprint &&
+        !context.force &&
+        fingerprintConfig(previous, context.fingerprintSalt) !== toApply.remoteFingerprint
+      ) {
+        outcomes.set(toApply, {
+          toApply,
+          result: conflictResult(toApply),
+          previous,
+          written: false,
+        });
+        continue;
+      }
+      pending.push({ toApply, payload, previous });
+    }
+  } catch {
+    // Could not read the remote state: apply everything one by one
+    outcomes.clear();
+    pending.length = 0;
+  }
+
+  // Configurations to apply one by one after a rejected bulk request, with the
+  // remote state they were already checked and backed up with
+  const fallback = new Map<ConfigToApply, { previous: Record<string, unknown> | null }>();
+
+  if (pending.length > 0) {
+    let putFailed = false;
+    let putError: unknown;
+    try {
+      // Keep the previous remote configurations for 'ncoctl rollback'
+      for (const { toApply, previous } of pending) {
+        await backupConfig(projectDir, backup, channel, remoteIdOf(toApply), previous);
+      }
+
+      await client.putConfigs(
+        channel,
+        pending.map(({ payload }) => payload)
+      );
+    } catch (error) {
+      putFailed = true;
+      putError = error;
+    }
+
+    for (const { toApply, payload, previous } of pending) {
+      const result = { channel, config: toApply.configName };
+
+      if (putFailed && putError instanceof ApiError) {
+        // A rejected bulk request falls back to single PUTs below
+        fallback.set(toApply, { previous });
+      } else if (putFailed) {
+        // The backup failed, or the request did not get an answer
+        outcomes.set(toApply, {
+          toApply,
+          result: { ...result, success: false, error: formatError(putError) },
+          previous,
+          written: false,
+        });
+      } else {
+        // Written: a failure from here on still leaves the new payload remotely
+        try {
+          await recordBackupEntry(projectDir, backup, {
+            channel,
+            config: remoteIdOf(toApply),
+            action: toApply.status,
+            existed: previous !== null,
+          });
+        } catch (error) {
+          outcomes.set(toApply, {
+            toApply,
+            result: { ...result, success: false, error: formatError(error) },
+            previous,
+            written: true,
+          });
+          continue;
+        }
+        await recordAppliedState(projectDir, config, toApply, payload).catch(() => undefined);
+        outcomes.set(toApply, {
+          toApply,
+          result: { ...result, success: true },
+          previous,
+          written: true,
+        });
+      }
+    }
+  }
+
+  const applied: AppliedConfig[] = [];
+  for (const toApply of batch) {
+    applied.push(
+      outcomes.get(toApply) ?? (await applyConfig(context, toApply, fallback.get(toApply)))
+    );
+  }
+  return applied;
+}
+
+/**
+ * Result for a configuration that changed remotely since planning
+ */
+function conflictResult(toApply: ConfigToApply): ConfigApplyResult {
+  return {
+    channel: toApply.channel,
+    config: toApply.configName,
+    success: false,
+    conflict: true,
+    error: 'Remote configuration changed since the plan was made',
+  };
+}
+
+/**
+ * Apply a single configuration
+ *
+ * @param checked - Remote state the configuration was already checked for
+ *   conflicts and backed up with (when a bulk request falls back to single PUTs)
+ */
+async function applyConfig(
+  context: ApplyContext,
+  toApply: ConfigToApply,
+  checked?: { previous: Record<string, unknown> | null }
+): Promise<AppliedConfig> {
+  const { projectDir, config, client, backup } = context;
+  const channel = toApply.channel;
+  const configName = toApply.configName;
+  const remoteId = remoteIdOf(toApply);
+  const configContent = context.configMap.get(`${channel}/${configName}`);
+
+  if (!configContent && toApply.status !== 'delete') {
+    return {
+      toApply,
+      result: {
+        channel,
+        config: configName,
+        success: false,
+        error: 'Configuration content not found',
+      },
+      previous: null,
+      written: false,
+    };
+  }
+
+  let previous: Record<string, unknown> | null = null;
+  let written = false;
+  try {
+    if (checked) {
+      previous = checked.previous;
+    } else {
+      previous = await client.getConfig(channel, remoteId);
+
+      // Leave configurations alone that someone changed after planning
+      if (toApply.remoteFingerprint && !context.force) {
+        if (fingerprintConfig(previous, context.fingerprintSalt) !== toApply.remoteFingerprint) {
+          return { toApply, result: conflictResult(toApply), previous, written };
+        }
+      }
+
+      // Keep the previous remote configuration for 'ncoctl rollback'
+      await backupConfig(projectDir, backup, channel, remoteId, previous);
+    }
+
+    if (toApply.status === 'delete') {
+      await client.deleteConfig(channel, remoteId);
+    } else if (configContent) {
+      await client.putConfig(channel, remoteId, configContent);
+    }
+    written = true;
+    await recordBackupEntry(projectDir, backup, {
+      channel,
+      config: remoteId,
+      action: toApply.status,
+      existed: previous !== null,
+    });
+
+    // Record what was applied, for drift detection in later plans. The state only
+    // annotates plans, so failing to write it does not fail the apply.
+    await recordAppliedState(projectDir, config, toApply, configContent).catch(() => undefined);
+
+    return { toApply, result: { channel, config: configName, success: true }, previous, written };
+  } catch (error) {
+    return {
+      toApply,
+      result: { channel, config: configName, success: false, error: formatError(error) },
+      previous,
+      written,
+    };
+  }
+}
+
+/**
+ * Restore configurations written by a failed atomic scope to their previous
+ * remote state, in reverse order
+ *
+ * Marks each result as rolled back, or records why restoring it failed.
+ */
+async function restoreConfigs(context: ApplyContext, written: AppliedConfig[]): Promise<void> {
+  const { projectDir, config, client } = context;
+  for (const { toApply, result, previous } of [...written].reverse()) {
+    try {
+      if (previous) {
+        await client.putConfig(toApply.channel, remoteIdOf(toApply), previous);
+      } else {
+        await client.deleteConfig(toApply.channel, remoteIdOf(toApply));
+      }
+      result.rolledBack = true;
+
+      // The restored payload is now the last one applied
+      const restored = { ...toApply, status: previous ? ('update' as const) : ('delete' as const) };
+      await recordAppliedState(projectDir, config, restored, previous ?? undefined).catch(
+        () => undefined
+      );
+    } catch (error) {
+      result.rollbackError = formatError(error);
+    }
+  }
+}
+
+/**
+ * Describe an error from applying a configuration
+ */
+function formatError(error: unknown): string {
+  return error instanceof ApiError
+    ? `API error (${error.statusCode}): ${error.message}`
+    : error instanceof Error
+      ? error.message
+      : String(error);
+}
+
+/**
+ * Write or remove the last-applied state of a configuration after applying it
+ */
+async function recordAppliedState(
+  projectDir: string,
+  config: ProjectConfig,
+  toApply: { channel: string; configName: string; status: 'create' | 'update' | 'delete' },
+  configContent: Record<string, unknown> | undefined
+): Promise<void> {
+  const environment = config.environment?.name;
+  if (toApply.status === 'delete') {
+    await removeAppliedState(projectDir, environment, toApply.channel, toApply.configName);
+  } else if (configContent) {
+    await writeAppliedState(
+      projectDir,
+      environment,
+      toApply.channel,
+      toApply.configName,
+      configContent
+    );
+  }
+}
+
+/**
+ * Apply a saved plan exactly as it was written
+ *
+ * Refuses to apply if the plan belongs to another merchant or environment, or if
+ * the remote state of the planned configurations changed since the plan was made
+ * (unless forced, which overwrites the changes). The saved payloads have their
+ * `${VAR}` placeholders substituted before upload.
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration, loaded for the plan's environment
+ * @param savedPlan - Plan read with `readSavedPlan`
+ * @param options - Apply options (force, atomic and bulk mode, concurrency)
+ * @returns Apply result with per-config status
+ * @throws SavedPlanError if the plan does not match the project or is stale
+ *   (unless forced)
+ */
+export async function applySavedPlan(
+  projectDir: string,
+  config: ProjectConfig,
+  savedPlan: SavedPlan,
+  options: Pick<ApplyOptions, 'force' | 'atomic' | 'bulk' | 'concurrency'> = {}
+): Promise<ApplyResult> {
+  const { plan } = savedPlan;
+  if (plan.merchant !== config.merchant) {
+    throw new SavedPlanError(
+      `Plan was generated for merchant '${plan.merchant}', not '${config.merchant}'`
+    );
+  }
+  if (plan.environment !== config.environment?.name) {
+    throw new SavedPlanError(
+      `Plan was generated for ${plan.environment ? `environment '${plan.environment}'` : 'no environment'}` +
+        `, not ${config.environment ? `'${config.environment.name}'` : 'without --env'}`
+    );
+  }
+
+  const env = await getEnvironment(projectDir, config.environment);
+  const client = new ConfigurationApiClient({
+    baseUrl: config.api.baseUrl,
+    token: resolveApiToken(env, config),
+    merchant: config.merchant,
+  });
+
+  // Refuse stale plans, unless forced to overwrite the changes
+  if (!options.force) {
+    const fingerprint = fingerprintRemoteState(
+      await fetchRemoteState(client, plan),
+      plan.fingerprintSalt ?? ''
+    );
+    if (fingerprint !== savedPlan.remoteFingerprint) {
+      throw new SavedPlanError(
+        'Remote configurations changed since the plan was made. Generate a new plan, or use --force to overwrite them.'
+      );
+    }
+  }
+
+  // Substitute secrets in the saved payloads
+  const payloads = new Map<string, Record<string, unknown>>();
+  for (const [key, payload] of Object.entries(savedPlan.payloads)) {
+    try {
+      payloads.set(key, substituteSecrets(payload, env));
+    } catch (error) {
+      if (error instanceof MissingEnvVarError) {
+        throw new Error(
+          `Missing environment variables for ${key}: ${error.missingVars.join(', ')}`
+        );
+      }
+      throw error;
+    }
+  }
+
+  return applyConfigs(projectDir, config, plan, { ...options, payloads });
+}
+
+/**
+ * Load local channels with substituted secrets as a map of config content
+ */
+async function loadConfigMap(
+  projectDir: string,
+  config: ProjectConfig,
+  env: Record<string, string>,
+  options: ApplyOptions
+): Promise<Map<string, Record<string, unknown>>> {
+  let channels = await discoverChannels(projectDir, config.channels, getOverlayDirectories(config));
+  channels = selectChannels(channels, options.channels);
+  channels = await loadAllChannelConfigs(channels, projectDir, {
+    configs: config.configs,
+    overlay: config.environment?.overlay,
+  });
+  const channelsWithSecrets = substituteSecretsInChannels(channels, env);
+
+  return buildConfigMap(channelsWithSecrets);
 }
 
 /**
@@ -201,8 +754,16 @@ export function formatApplyResult(result: ApplyResult, colors: boolean = true):
 
   // Per-config results
   for (const r of result.results) {
-    if (r.success) {
+    if (r.rolledBack) {
+      lines.push(`${c.yellow}↺${c.reset} ${r.channel}/${r.config}: rolled back`);
+    } else if (r.rollbackError) {
+      lines.push(
+        `${c.red}✗${c.reset} ${r.channel}/${r.config}: applied, but rollback failed: ${r.rollbackError}`
+      );
+    } else if (r.success) {
       lines.push(`${c.green}✓${c.reset} ${r.channel}/${r.config}`);
+    } else if (r.conflict) {
+      lines.push(`${c.yellow}!${c.reset} ${r.channel}/${r.config}: conflict: ${r.error}`);
     } else {
       lines.push(`${c.red}✗${c.reset} ${r.channel}/${r.config}: ${r.error}`);
     }
@@ -217,6 +778,16 @@ export function formatApplyResult(result: ApplyResult, colors: boolean = true):
   if (result.summary.failed > 0) {
     lines.push(`  ${c.red}✗ ${result.summary.failed} failed${c.reset}`);
   }
+  if (result.summary.conflicts > 0) {
+    lines.push(
+      `  ${c.yellow}! ${result.summary.conflicts} conflict(s) (changed remotely, re-run plan or use --force)${c.reset}`
+    );
+  }
+  if (result.summary.rolledBack > 0) {
+    lines.push(
+      `  ${c.yellow}↺ ${result.summary.rolledBack} rolled back (atomic scope failed)${c.reset}`
+    );
+  }
   if (result.summary.skipped > 0) {
     lines.push(`  ${c.yellow}○ ${result.summary.skipped} skipped (no changes)${c.reset}`);
   }
@@ -228,6 +799,9 @@ export function formatApplyResult(result: ApplyResult, colors: boolean = true):
   } else {
     lines.push(`${c.red}${c.bold}Apply completed with errors.${c.reset}`);
   }
+  if (result.runId) {
+    lines.push(`Previous state backed up. Undo with 'ncoctl rollback ${result.runId}'.`);
+  }
 
   return lines.join('\n');
 }
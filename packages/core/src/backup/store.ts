@@ -0,0 +1,243 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { ProjectConfig } from '../types/index.js';
+
+/**
+ * Directory (relative to the project root) where pre-apply backups are kept
+ */
+export const BACKUPS_DIR = '.ncoctl/backups';
+
+/**
+ * Name of the manifest file in a backup directory
+ */
+const MANIFEST_FILENAME = 'manifest.json';
+
+/**
+ * A configuration changed by an apply run
+ */
+export interface BackupEntry {
+  /** Channel name */
+  channel: string;
+
+  /** Configuration name */
+  config: string;
+
+  /** What the run did to the configuration */
+  action: 'create' | 'update' | 'delete';
+
+  /** Whether the configuration existed before the run (its payload is in the backup) */
+  existed: boolean;
+}
+
+/**
+ * Manifest of a backup, describing one apply run
+ */
+export interface BackupManifest {
+  /** Run id, also the name of the backup directory */
+  runId: string;
+
+  /** When the run started (ISO 8601) */
+  createdAt: string;
+
+  /** Merchant the run applied to */
+  merchant: string;
+
+  /** Environment the run applied to (when selected with --env) */
+  environment?: string;
+
+  /** Run id of the backup this run rolled back (for rollback runs) */
+  rollbackOf?: string;
+
+  /** Configurations changed by the run, in the order they were applied */
+  entries: BackupEntry[];
+}
+
+/**
+ * Error thrown when a backup cannot be found or read
+ */
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+/**
+ * Start the backup of an apply run
+ *
+ * Nothing is written until the first configuration is backed up.
+ *
+ * @param config - Project configuration the run applies with
+ * @param rollbackOf - Run id of the backup the run rolls back (for rollback runs)
+ * @returns Empty manifest with a new run id
+ */
+export function createBackup(config: ProjectConfig, rollbackOf?: string): BackupManifest {
+  const createdAt = new Date().toISOString();
+  return {
+    runId: createdAt.replace(/[:.]/g, '-'),
+    createdAt,
+    merchant: config.merchant,
+    environment: config.environment?.name,
+    rollbackOf,
+    entries: [],
+  };
+}
+
+/**
+ * Store the remote configuration as it was before the run changes it
+ *
+ * @param projectDir - Project root directory
+ * @param backup - Backup of the run
+ * @param channel - Channel name
+ * @param config - Configuration name
+ * @param previous - Remote configuration (null if it does not exist)
+ */
+export async function backupConfig(
+  projectDir: string,
+  backup: BackupManifest,
+  channel: string,
+  config: string,
+  previous: Record<string, unknown> | null
+): Promise<void> {
+  const backupDir = getBackupDirectory(projectDir, backup.runId);
+  await fs.promises.mkdir(path.join(backupDir, channel), { recursive: true });
+
+  if (previous) {
+    await writeJson(path.join(backupDir, channel, `${config}.json`), previous);
+  }
+  await writeManifest(projectDir, backup);
+}
+
+/**
+ * Record in the manifest that a configuration was changed by the run
+ */
+export async function recordBackupEntry(
+  projectDir: string,
+  backup: BackupManifest,
+  entry: BackupEntry
+): Promise<void> {
+  backup.entries.push(entry);
+  await writeManifest(projectDir, backup);
+}
+
+/**
+ * List backups, newest first
+ *
+ * @param projectDir - Project root directory
+ * @returns Manifests of all readable backups
+ */
+export async function listBackups(projectDir: string): Promise<BackupManifest[]> {
+  let runIds: string[];
+  try {
+    runIds = await fs.promises.readdir(path.join(projectDir, BACKUPS_DIR));
+  } catch {
+    return [];
+  }
+
+  const backups: BackupManifest[] = [];
+  for (const runId of runIds.sort().reverse()) {
+    try {
+      backups.push(await readManifest(projectDir, runId));
+    } catch {
+      // Not a backup directory
+    }
+  }
+  return backups;
+}
+
+/**
+ * Read a backup
+ *
+ * Without a run id, rollback runs are skipped, so rolling back twice does not
+ * undo the first rollback.
+ *
+ * @param projectDir - Project root directory
+ * @param runId - Run id (default: the newest backup of a run other than a
+ *   rollback that changed anything)
+ * @returns Backup manifest
+ * @throws BackupError if the backup does not exist
+ */
+export async function readBackup(projectDir: string, runId?: string): Promise<BackupManifest> {
+  if (runId === undefined) {
+    const latest = (await listBackups(projectDir)).find(
+      (b) => b.entries.length > 0 && !b.rollbackOf
+    );
+    if (!latest) {
+      throw new BackupError(`No backups found in ${BACKUPS_DIR}`);
+    }
+    return latest;
+  }
+
+  try {
+    return await readManifest(projectDir, runId);
+  } catch {
+    throw new BackupError(`Backup '${runId}' not found in ${BACKUPS_DIR}`);
+  }
+}
+
+/**
+ * Read the previous payload of a configuration from a backup
+ *
+ * @throws BackupError if the payload is missing
+ */
+export async function readBackupPayload(
+  projectDir: string,
+  backup: BackupManifest,
+  channel: string,
+  config: string
+): Promise<Record<string, unknown>> {
+  const filePath = path.join(
+    getBackupDirectory(projectDir, backup.runId),
+    channel,
+    `${config}.json`
+  );
+  try {
+    return JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as Record<string, unknown>;
+  } catch (error) {
+    throw new BackupError(
+      `Cannot read backup of ${channel}/${config}: ${(error as Error).message}`
+    );
+  }
+}
+
+/**
+ * Get the directory of a backup
+ */
+function getBackupDirectory(projectDir: string, runId: string): string {
+  return path.join(projectDir, BACKUPS_DIR, runId);
+}
+
+/**
+ * Pending manifest writes of each backup
+ */
+const manifestWrites = new WeakMap<BackupManifest, Promise<void>>();
+
+/**
+ * Write the manifest of a backup
+ *
+ * Configurations applied in parallel update the same manifest, so writes are
+ * queued; each one writes the entries recorded by the time it runs.
+ */
+function writeManifest(projectDir: string, backup: BackupManifest): Promise<void> {
+  const filePath = path.join(getBackupDirectory(projectDir, backup.runId), MANIFEST_FILENAME);
+  const write = (manifestWrites.get(backup) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(() => writeJson(filePath, backup));
+  manifestWrites.set(backup, write);
+  return write;
+}
+
+/**
+ * Read the manifest of a backup directory
+ */
+async function readManifest(projectDir: string, runId: string): Promise<BackupManifest> {
+  const filePath = path.join(getBackupDirectory(projectDir, runId), MANIFEST_FILENAME);
+  return JSON.parse(await fs.promises.readFile(filePath, 'utf-8')) as BackupManifest;
+}
+
+/**
+ * Write a value as formatted JSON
+ */
+async function writeJson(filePath: string, value: unknown): Promise<void> {
+  await fs.promises.writeFile(filePath, JSON.stringify(value, null, 2) + '\n', 'utf-8');
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { compareMatrix, matrixHasDifferences } from './matrix.js';
+import { loadProjectConfig } from '../config/project.js';
+import { createTestProject, cleanupTestProject } from '../__tests__/helpers/project.js';
+
+describe('compareMatrix', () => {
+  let projectDir: string;
+
+  afterEach(async () => {
+    await cleanupTestProject(projectDir);
+  });
+
+  it('lists differing fields and the channels that differ from the majority', async () => {
+    projectDir = await createTestProject({
+      'sweden/klarna_checkout.yaml': { id: 'klarna_checkout', timeout: 30, locale: 'sv-SE' },
+      'norway/klarna_checkout.yaml': { id: 'klarna_checkout', timeout: 30, locale: 'nb-NO' },
+      'finland/klarna_checkout.yaml': { id: 'klarna_checkout', timeout: 10, locale: 'fi-FI' },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await compareMatrix(
+      projectDir,
+      config,
+      ['sweden', 'norway', 'finland'],
+      'klarna_checkout'
+    );
+
+    expect(result.rows).toEqual([
+      {
+        path: '/timeout',
+        values: { finland: 10, norway: 30, sweden: 30 },
+        outliers: ['finland'],
+      },
+      {
+        path: '/locale',
+        values: { finland: 'fi-FI', norway: 'nb-NO', sweden: 'sv-SE' },
+        outliers: [],
+      },
+    ]);
+    expect(matrixHasDifferences(result)).toBe(true);
+  });
+
+  it('counts an unset field as a value of its own', async () => {
+    projectDir = await createTestProject({
+      'sweden/klarna_checkout.yaml': { id: 'klarna_checkout', retries: 3 },
+      'norway/klarna_checkout.yaml': { id: 'klarna_checkout' },
+      'finland/klarna_checkout.yaml': { id: 'klarna_checkout' },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await compareMatrix(projectDir, config, ['*'], 'klarna_checkout');
+
+    expect(result.rows).toEqual([
+      { path: '/retries', values: { sweden: 3 }, outliers: ['sweden'] },
+    ]);
+  });
+
+  it('compares arrays as a whole and lists channels without the configuration', async () => {
+    projectDir = await createTestProject({
+      'sweden/klarna_checkout.yaml': { id: 'klarna_checkout', countries: ['SE', 'NO'] },
+      'norway/klarna_checkout.yaml': { id: 'klarna_checkout', countries: ['NO', 'SE'] },
+      'finland/adyen_checkout.yaml': { id: 'adyen_checkout' },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await compareMatrix(projectDir, config, ['*'], 'klarna_checkout');
+
+    expect(result.missing).toEqual(['finland']);
+    expect(result.rows.map((r) => [r.path, r.outliers])).toEqual([['/countries', []]]);
+  });
+});
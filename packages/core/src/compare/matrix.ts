@@ -0,0 +1,278 @@
+import type { ProjectConfig } from '../types/index.js';
+import type { MatrixResult, MatrixRow } from './types.js';
+import { discoverChannels } from '../config/discovery.js';
+import { getOverlayDirectories } from '../config/project.js';
+import { loadAllChannelConfigs } from '../config/loader.js';
+import { selectChannels } from '../config/patterns.js';
+
+/**
+ * Key used for channels where a field is not set
+ */
+const UNSET_KEY = '\0unset';
+
+/**
+ * Compare one configuration across several channels
+ *
+ * Lists every leaf field path whose value differs between the channels, with
+ * each channel's value. Arrays are compared as a whole, since they are replaced
+ * rather than merged. Channels whose value differs from the most common value
+ * are reported as outliers.
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration
+ * @param channelPatterns - Channel names or glob patterns to compare
+ * @param configName - Configuration to compare
+ * @returns Comparison matrix
+ */
+export async function compareMatrix(
+  projectDir: string,
+  config: ProjectConfig,
+  channelPatterns: string[],
+  configName: string
+): Promise<MatrixResult> {
+  // Discover and load the selected channels
+  let channels = await discoverChannels(projectDir, config.channels, getOverlayDirectories(config));
+  channels = selectChannels(channels, channelPatterns);
+  const loadedChannels = await loadAllChannelConfigs(channels, projectDir, {
+    configs: config.configs,
+    overlay: config.environment?.overlay,
+  });
+
+  // Flatten the configuration of each channel that has it
+  const columns: string[] = [];
+  const missing: string[] = [];
+  const leavesByChannel = new Map<string, Map<string, unknown>>();
+
+  for (const channel of loadedChannels) {
+    const channelConfig = channel.configs.find((c) => c.name === configName);
+    if (!channelConfig) {
+      missing.push(channel.name);
+      continue;
+    }
+    columns.push(channel.name);
+    leavesByChannel.set(channel.name, flattenLeaves(channelConfig.merged));
+  }
+
+  if (columns.length === 0) {
+    throw new Error(`Configuration '${configName}' not found in any selected channel`);
+  }
+
+  // Collect all paths, in first-seen order
+  const paths = new Set<string>();
+  for (const leaves of leavesByChannel.values()) {
+    for (const path of leaves.keys()) {
+      paths.add(path);
+    }
+  }
+
+  // Keep paths whose value differs between channels
+  const rows: MatrixRow[] = [];
+  for (const path of paths) {
+    const values: Record<string, unknown> = {};
+    const keys = new Map<string, string>();
+
+    for (const channel of columns) {
+      const leaves = leavesByChannel.get(channel)!;
+      if (leaves.has(path)) {
+        values[channel] = leaves.get(path);
+        keys.set(channel, canonicalJson(leaves.get(path)));
+      } else {
+        keys.set(channel, UNSET_KEY);
+      }
+    }
+
+    if (new Set(keys.values()).size > 1) {
+      rows.push({ path, values, outliers: findOutliers(keys) });
+    }
+  }
+
+  return {
+    config: configName,
+    channels: columns,
+    missing,
+    timestamp: new Date().toISOString(),
+    rows,
+  };
+}
+
+/**
+ * Find channels whose value differs from the most common value
+ *
+ * If several values are equally common there is no majority and no outliers.
+ */
+function findOutliers(keys: Map<string, string>): string[] {
+  const counts = new Map<string, number>();
+  for (const key of keys.values()) {
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+
+  const sorted = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+  const [top, second] = sorted;
+  if (!top || (second && second[1] === top[1])) {
+    return [];
+  }
+
+  return [...keys.entries()].filter(([, key]) => key !== top[0]).map(([channel]) => channel);
+}
+
+/**
+ * Flatten a config into its leaf values, keyed by JSON path
+ *
+ * The `$schema` field is metadata and is skipped, as in diffs.
+ */
+function flattenLeaves(
+  config: Record<string, unknown>,
+  prefix: string = '',
+  leaves: Map<string, unknown> = new Map()
+): Map<string, unknown> {
+  for (const [key, value] of Object.entries(config)) {
+    if (prefix === '' && key === '$schema') continue;
+
+    const leafPath = `${prefix}/${key}`;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenLeaves(value, leafPath, leaves);
+    } else {
+      leaves.set(leafPath, value);
+    }
+  }
+  return leaves;
+}
+
+/**
+ * Serialize a value as JSON with sorted object keys
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) => {
+    if (isPlainObject(val)) {
+      return Object.fromEntries(
+        Object.keys(val)
+          .sort()
+          .map((key) => [key, val[key]])
+      );
+    }
+    return val;
+  });
+}
+
+/**
+ * Check if a value is a plain (non-array, non-null) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check if a comparison matrix found any differences
+ */
+export function matrixHasDifferences(result: MatrixResult): boolean {
+  return result.rows.length > 0 || result.missing.length > 0;
+}
+
+/**
+ * Format a value for a matrix cell
+ */
+function formatCell(values: Record<string, unknown>, channel: string): string {
+  if (!(channel in values)) {
+    return '-';
+  }
+  const value = values[channel];
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Format comparison matrix as a text table
+ *
+ * Values that differ from the majority are highlighted and marked with `*`.
+ */
+export function formatMatrixResult(result: MatrixResult, colors: boolean = true): string {
+  const c = colors
+    ? {
+        reset: '\x1b[0m',
+        bold: '\x1b[1m',
+        dim: '\x1b[2m',
+        yellow: '\x1b[33m',
+        cyan: '\x1b[36m',
+      }
+    : { reset: '', bold: '', dim: '', yellow: '', cyan: '' };
+
+  const lines: string[] = [];
+
+  // Header
+  lines.push(
+    `${c.bold}Comparing ${c.cyan}${result.config}${c.reset}${c.bold} across ${result.channels.length} channels${c.reset}`
+  );
+  lines.push(`Generated at: ${result.timestamp}`);
+  lines.push('');
+
+  if (result.rows.length === 0) {
+    lines.push(`${c.dim}  All channels are identical${c.reset}`);
+  } else {
+    // Cell text, with outlier marks, before padding
+    const header = ['Path', ...result.channels];
+    const body = result.rows.map((row) => [
+      row.path,
+      ...result.channels.map((channel) =>
+        row.outliers.includes(channel)
+          ? `${formatCell(row.values, channel)}*`
+          : formatCell(row.values, channel)
+      ),
+    ]);
+    const widths = header.map((title, i) =>
+      Math.max(title.length, ...body.map((cells) => cells[i]!.length))
+    );
+
+    lines.push(
+      `${c.bold}${header.map((title, i) => title.padEnd(widths[i]!)).join('  ')}${c.reset}`
+    );
+    body.forEach((cells, rowIndex) => {
+      const row = result.rows[rowIndex]!;
+      const formatted = cells.map((cell, i) => {
+        const padded = cell.padEnd(widths[i]!);
+        const channel = result.channels[i - 1];
+        return channel && row.outliers.includes(channel)
+          ? `${c.yellow}${padded}${c.reset}`
+          : padded;
+      });
+      lines.push(formatted.join('  ').trimEnd());
+    });
+  }
+
+  // Summary
+  lines.push('');
+  lines.push(`${c.bold}Summary:${c.reset}`);
+  lines.push(`  ${result.rows.length} field(s) differ`);
+  if (result.rows.some((row) => row.outliers.length > 0)) {
+    lines.push(`  ${c.yellow}*${c.reset} differs from the majority`);
+  }
+  if (result.missing.length > 0) {
+    lines.push(`  ${c.dim}Not configured in: ${result.missing.join(', ')}${c.reset}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format comparison matrix as CSV
+ *
+ * One row per field path with a column per channel; unset values are empty.
+ * The last column lists the channels that differ from the majority.
+ */
+export function formatMatrixCsv(result: MatrixResult): string {
+  const lines = [['path', ...result.channels, 'outliers'].map(csvField).join(',')];
+
+  for (const row of result.rows) {
+    const cells = result.channels.map((channel) =>
+      channel in row.values ? formatCell(row.values, channel) : ''
+    );
+    lines.push([row.path, ...cells, row.outliers.join(' ')].map(csvField).join(','));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Quote a CSV field if needed
+ */
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { compareSides, parseCompareSide } from './service.js';
+import { loadProjectConfig } from '../config/project.js';
+import { createFakeApi, type FakeApi } from '../__tests__/helpers/fake-api.js';
+import {
+  DEFAULT_PROJECT_CONFIG,
+  createTestProject,
+  cleanupTestProject,
+} from '../__tests__/helpers/project.js';
+
+const STAGE_URL = 'https://stage.example.com';
+const PROD_URL = 'https://prod.example.com';
+
+const PROJECT_CONFIG = {
+  ...DEFAULT_PROJECT_CONFIG,
+  environments: {
+    stage: { api: { baseUrl: STAGE_URL, token: 'stage-token' } },
+    prod: { api: { baseUrl: PROD_URL, token: 'prod-token' } },
+  },
+};
+
+describe('parseCompareSide', () => {
+  it('parses local and remote sides in an environment', () => {
+    expect(parseCompareSide('sweden')).toEqual({ channel: 'sweden', remote: false });
+    expect(parseCompareSide('remote@prod:sweden')).toEqual({
+      channel: 'sweden',
+      environment: 'prod',
+      remote: true,
+    });
+    expect(() => parseCompareSide('remote:prod:sweden')).toThrow('Invalid channel');
+  });
+});
+
+describe('compareSides', () => {
+  let projectDir: string;
+  const apis: FakeApi[] = [];
+
+  beforeEach(async () => {
+    projectDir = await createTestProject(
+      {
+        'sweden/klarna_checkout.yaml': {
+          id: 'klarna_checkout',
+          timeout: 30,
+          username: '${KLARNA_USER}',
+        },
+        '.env': 'KLARNA_USER=merchant-user\n',
+      },
+      PROJECT_CONFIG
+    );
+  });
+
+  afterEach(async () => {
+    apis.splice(0).forEach((api) => api.restore());
+    await cleanupTestProject(projectDir);
+  });
+
+  it('compares the remote state of two channels', async () => {
+    apis.push(
+      createFakeApi({
+        sweden: { klarna_checkout: { id: 'klarna_checkout', timeout: 30 } },
+        norway: {
+          klarna_checkout: { id: 'klarna_checkout', timeout: 60 },
+          adyen_checkout: { id: 'adyen_checkout' },
+        },
+      })
+    );
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await compareSides(
+      projectDir,
+      { channel: 'sweden', config, remote: true },
+      { channel: 'norway', config, remote: true }
+    );
+
+    expect([result.channelA, result.channelB]).toEqual(['remote:sweden', 'remote:norway']);
+    expect(result.summary).toEqual({ identical: 0, different: 1, onlyInA: 0, onlyInB: 1 });
+    expect(result.configs.find((c) => c.name === 'klarna_checkout')?.diffs).toMatchObject([
+      { path: '/timeout', oldValue: 60, newValue: 30 },
+    ]);
+  });
+
+  it('substitutes placeholders in the local side when the other side is remote', async () => {
+    apis.push(
+      createFakeApi({
+        sweden: {
+          klarna_checkout: { id: 'klarna_checkout', timeout: 30, username: 'merchant-user' },
+        },
+      })
+    );
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await compareSides(
+      projectDir,
+      { channel: 'sweden', config },
+      { channel: 'sweden', config, remote: true }
+    );
+
+    expect([result.channelA, result.channelB]).toEqual(['local:sweden', 'remote:sweden']);
+    expect(result.summary.identical).toBe(1);
+  });
+
+  it('compares a channel across environments through their own APIs', async () => {
+    apis.push(
+      createFakeApi(
+        { sweden: { klarna_checkout: { id: 'klarna_checkout', timeout: 30 } } },
+        STAGE_URL
+      ),
+      createFakeApi(
+        { sweden: { klarna_checkout: { id: 'klarna_checkout', timeout: 10 } } },
+        PROD_URL
+      )
+    );
+    const stage = await loadProjectConfig(projectDir, { environment: 'stage' });
+    const prod = await loadProjectConfig(projectDir, { environment: 'prod' });
+
+    const result = await compareSides(
+      projectDir,
+      { channel: 'sweden', config: stage, remote: true },
+      { channel: 'sweden', config: prod, remote: true }
+    );
+
+    expect([result.channelA, result.channelB]).toEqual([
+      'remote@stage:sweden',
+      'remote@prod:sweden',
+    ]);
+    expect(result.configs[0]?.diffs).toMatchObject([
+      { path: '/timeout', oldValue: 10, newValue: 30 },
+    ]);
+  });
+
+  it('reports a channel missing remotely', async () => {
+    apis.push(createFakeApi());
+    const config = await loadProjectConfig(projectDir);
+
+    await expect(
+      compareSides(
+        projectDir,
+        { channel: 'sweden', config },
+        { channel: 'sweden', config, remote: true }
+      )
+    ).rejects.toThrow("Channel 'remote:sweden' not found");
+  });
+});
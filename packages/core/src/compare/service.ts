@@ -1,8 +1,14 @@
-import type { ProjectConfig } from '../types/index.js';
+import type { ProjectConfig, ChannelConfig, ConfigLayer } from '../types/index.js';
 import type { CompareResult, ConfigComparison, CompareSummary } from './types.js';
 import { discoverChannels } from '../config/discovery.js';
+import { getOverlayDirectories } from '../config/project.js';
 import { loadAllChannelConfigs } from '../config/loader.js';
+import { isIncluded } from '../config/patterns.js';
+import { getEnvironment, resolveApiToken } from '../secrets/env.js';
+import { substituteSecrets, MissingEnvVarError } from '../secrets/substitute.js';
+import { ConfigurationApiClient } from '../api/client.js';
 import { diffConfigs } from '../diff/differ.js';
+import { describeLayer, findValueSource } from '../merge/hierarchy.js';
 
 /**
  * Options for comparison
@@ -10,10 +16,34 @@ import { diffConfigs } from '../diff/differ.js';
 export interface CompareOptions {
   /** Show only differences (exclude identical configs) */
   differencesOnly?: boolean;
+  /** Compare a specific configuration only */
+  config?: string;
 }
 
 /**
- * Compare two channels side-by-side
+ * One side of a comparison
+ */
+export interface CompareSide {
+  /** Channel name */
+  channel: string;
+  /** Project configuration, loaded for the side's environment */
+  config: ProjectConfig;
+  /** Read the remote state through the API instead of local files */
+  remote?: boolean;
+}
+
+/**
+ * A configuration as seen by one side of a comparison
+ */
+interface SideConfig {
+  /** Effective configuration */
+  merged: Record<string, unknown>;
+  /** Layers the configuration was merged from (empty for remote state) */
+  layers: ConfigLayer[];
+}
+
+/**
+ * Compare two local channels side-by-side
  *
  * @param projectDir - Project root directory
  * @param config - Project configuration
@@ -24,34 +54,87 @@ export interface CompareOptions {
  */
 export async function compareChannels(
   projectDir: string,
-  _config: ProjectConfig,
+  config: ProjectConfig,
   channelA: string,
   channelB: string,
   options: CompareOptions = {}
 ): Promise<CompareResult> {
-  // Discover and load channels
-  const channels = await discoverChannels(projectDir);
-  const loadedChannels = await loadAllChannelConfigs(channels, projectDir);
-
-  // Find the two channels
-  const chA = loadedChannels.find((ch) => ch.name === channelA);
-  const chB = loadedChannels.find((ch) => ch.name === channelB);
+  return compareSides(
+    projectDir,
+    { channel: channelA, config },
+    { channel: channelB, config },
+    options
+  );
+}
 
-  if (!chA) {
-    throw new Error(`Channel '${channelA}' not found`);
+/**
+ * Parse a comparison side of the form `[local|remote][@<env>]:<channel>`
+ *
+ * A plain channel name is the local channel. Examples: `sweden`,
+ * `remote:sweden`, `remote@prod:sweden`, `local@prod:sweden`.
+ *
+ * @param spec - Side specification
+ * @returns Channel, environment (if given) and whether to read remote state
+ * @throws Error if the specification is malformed
+ */
+export function parseCompareSide(spec: string): {
+  channel: string;
+  environment?: string;
+  remote: boolean;
+} {
+  const match = /^(?:(local|remote)?(?:@([^:]+))?:)?([^:]+)$/.exec(spec);
+  if (!match || match[3] === undefined) {
+    throw new Error(
+      `Invalid channel '${spec}'. Use <channel> or [local|remote][@<env>]:<channel>.`
+    );
   }
 
-  if (!chB) {
-    throw new Error(`Channel '${channelB}' not found`);
-  }
+  return {
+    channel: match[3],
+    environment: match[2],
+    remote: match[1] === 'remote',
+  };
+}
+
+/**
+ * Compare two sides side-by-side, each a local or remote channel in any environment
+ *
+ * Local configurations are compared with their `${VAR}` placeholders, unless
+ * one side is remote; then they are substituted from the side's env files so
+ * that only real differences show.
+ *
+ * @param projectDir - Project root directory
+ * @param sideA - First side
+ * @param sideB - Second side
+ * @param options - Comparison options
+ * @returns Comparison result, with the sides labelled as in `parseCompareSide`
+ */
+export async function compareSides(
+  projectDir: string,
+  sideA: CompareSide,
+  sideB: CompareSide,
+  options: CompareOptions = {}
+): Promise<CompareResult> {
+  const [channelA, channelB] = labelSides(sideA, sideB);
+  const substitute = Boolean(sideA.remote || sideB.remote);
 
   // Build config maps
-  const configsA = new Map(chA.configs.map((c) => [c.name, c.merged]));
-  const configsB = new Map(chB.configs.map((c) => [c.name, c.merged]));
+  const configsA = await loadSide(projectDir, sideA, channelA, substitute);
+  const configsB = await loadSide(projectDir, sideB, channelB, substitute);
 
   // Get all config names
   const allConfigNames = new Set([...configsA.keys(), ...configsB.keys()]);
 
+  if (options.config) {
+    if (!allConfigNames.has(options.config)) {
+      throw new Error(
+        `Configuration '${options.config}' not found in channel '${channelA}' or '${channelB}'`
+      );
+    }
+    allConfigNames.clear();
+    allConfigNames.add(options.config);
+  }
+
   // Compare each config
   const comparisons: ConfigComparison[] = [];
 
@@ -81,14 +164,106 @@ export async function compareChannels(
   };
 }
 
+/**
+ * Label both sides, qualifying them only when they differ in location or environment
+ */
+function labelSides(sideA: CompareSide, sideB: CompareSide): [string, string] {
+  const envA = sideA.config.environment?.name;
+  const envB = sideB.config.environment?.name;
+  if (!sideA.remote && !sideB.remote && envA === envB) {
+    return [sideA.channel, sideB.channel];
+  }
+
+  const label = (side: CompareSide, env: string | undefined) =>
+    `${side.remote ? 'remote' : 'local'}${env ? `@${env}` : ''}:${side.channel}`;
+  return [label(sideA, envA), label(sideB, envB)];
+}
+
+/**
+ * Load the configurations of one side, by configuration id
+ */
+async function loadSide(
+  projectDir: string,
+  side: CompareSide,
+  label: string,
+  substitute: boolean
+): Promise<Map<string, SideConfig>> {
+  const { config } = side;
+  const env = substitute ? await getEnvironment(projectDir, config.environment) : {};
+
+  if (side.remote) {
+    const client = new ConfigurationApiClient({
+      baseUrl: config.api.baseUrl,
+      token: resolveApiToken(env, config),
+      merchant: config.merchant,
+    });
+
+    const remoteChannels = await client.listChannels();
+    if (!remoteChannels.some((ch) => ch.name === side.channel)) {
+      throw new Error(`Channel '${label}' not found`);
+    }
+
+    const remoteConfigs = await client.listConfigs(side.channel);
+    return new Map(
+      remoteConfigs
+        .filter((c) => isIncluded(c.id, config.configs))
+        .map((c) => [c.id, { merged: c, layers: [] }])
+    );
+  }
+
+  const channels = await discoverChannels(
+    projectDir,
+    config.channels,
+    getOverlayDirectories(config)
+  );
+  const channel = channels.find((ch) => ch.name === side.channel);
+  if (!channel) {
+    throw new Error(`Channel '${label}' not found`);
+  }
+
+  const [loaded] = await loadAllChannelConfigs([channel], projectDir, {
+    configs: config.configs,
+    overlay: config.environment?.overlay,
+  });
+
+  return new Map(
+    (loaded?.configs ?? []).map((c) => [
+      c.id ?? c.name,
+      { merged: substitute ? resolveSecrets(c, env) : c.merged, layers: c.layers },
+    ])
+  );
+}
+
+/**
+ * Substitute secrets in a local configuration
+ */
+function resolveSecrets(
+  config: ChannelConfig,
+  env: Record<string, string>
+): Record<string, unknown> {
+  try {
+    return substituteSecrets(config.merged, env);
+  } catch (error) {
+    if (error instanceof MissingEnvVarError) {
+      throw new Error(
+        `Missing environment variables in ${config.path}: ${error.missingVars.join(', ')}`
+      );
+    }
+    throw error;
+  }
+}
+
 /**
  * Compare a single configuration between two channels
  */
 function compareConfig(
   name: string,
-  configA?: Record<string, unknown>,
-  configB?: Record<string, unknown>
+  channelConfigA?: SideConfig,
+  channelConfigB?: SideConfig
 ): ConfigComparison {
+  const configA = channelConfigA?.merged;
+  const configB = channelConfigB?.merged;
+
   // Only in A
   if (configA && !configB) {
     return {
@@ -109,8 +284,16 @@ function compareConfig(
     };
   }
 
-  // Both exist - compare
-  const diffs = diffConfigs(configA!, configB!);
+  // Both exist - compare, noting which layer supplied each side's value
+  const diffs = diffConfigs(configA!, configB!).map((diff) => {
+    const sourceA = findValueSource(channelConfigA!.layers, diff.path);
+    const sourceB = findValueSource(channelConfigB!.layers, diff.path);
+    return {
+      ...diff,
+      source: sourceA ? describeLayer(sourceA) : undefined,
+      oldSource: sourceB ? describeLayer(sourceB) : undefined,
+    };
+  });
 
   if (diffs.length === 0) {
     return {
@@ -176,10 +359,24 @@ function calculateSummary(
   };
 }
 
+/**
+ * Check if a comparison found any differences
+ */
+export function compareHasDifferences(result: CompareResult): boolean {
+  return result.summary.different > 0 || result.summary.onlyInA > 0 || result.summary.onlyInB > 0;
+}
+
 /**
  * Format comparison result as text
+ *
+ * In verbose mode, each difference shows which layer (root, variant, group or
+ * channel) supplied the value in each channel.
  */
-export function formatCompareResult(result: CompareResult, colors: boolean = true): string {
+export function formatCompareResult(
+  result: CompareResult,
+  colors: boolean = true,
+  verbose: boolean = false
+): string {
   const c = colors
     ? {
         reset: '\x1b[0m',
@@ -211,7 +408,11 @@ export function formatCompareResult(result: CompareResult, colors: boolean = tru
         lines.push(`${c.yellow}~ ${comparison.name} (${comparison.diffs.length} differences)${c.reset}`);
         for (const diff of comparison.diffs) {
           const diffLine = formatDiffLine(diff, c);
-          lines.push(`    ${diffLine}`);
+          const sources =
+            verbose && (diff.source || diff.oldSource)
+              ? ` ${c.dim}(${result.channelA}: ${diff.source ?? '-'}, ${result.channelB}: ${diff.oldSource ?? '-'})${c.reset}`
+              : '';
+          lines.push(`    ${diffLine}${sources}`);
         }
         break;
       case 'only_in_a':
@@ -56,3 +56,37 @@ export interface CompareSummary {
   /** Number of configs only in channel B */
   onlyInB: number;
 }
+
+/**
+ * Result of comparing one configuration across several channels
+ */
+export interface MatrixResult {
+  /** Configuration name */
+  config: string;
+
+  /** Compared channels (columns), in discovery order */
+  channels: string[];
+
+  /** Selected channels that do not have the configuration */
+  missing: string[];
+
+  /** Timestamp of comparison */
+  timestamp: string;
+
+  /** Field paths whose value differs between channels */
+  rows: MatrixRow[];
+}
+
+/**
+ * Values of a single field path across channels
+ */
+export interface MatrixRow {
+  /** JSON path of the field (e.g. /apiSettings/storeId) */
+  path: string;
+
+  /** Value per channel (channels without the field are omitted) */
+  values: Record<string, unknown>;
+
+  /** Channels whose value differs from the majority (empty if there is no majority) */
+  outliers: string[];
+}
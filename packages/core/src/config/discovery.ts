@@ -1,6 +1,7 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
-import type { Channel } from '../types/index.js';
+import type { Channel, NamePatterns } from '../types/index.js';
+import { isChannelIncluded } from './patterns.js';
 
 /**
  * Directories to exclude from channel discovery
@@ -8,16 +9,28 @@ import type { Channel } from '../types/index.js';
 const EXCLUDED_PREFIXES = ['.', '_'];
 const EXCLUDED_NAMES = ['node_modules', 'dist', 'build', 'packages'];
 
+/**
+ * Directory holding group configurations (`_groups/<group>/<config>.yaml`)
+ */
+export const GROUPS_DIR = '_groups';
+
 /**
  * Discover all channels in the project directory
  *
  * A channel is a directory containing at least one .yaml file.
- * Excludes directories starting with . or _, and node_modules.
+ * Excludes directories starting with . or _, and node_modules, plus any
+ * directory excluded by the project's channel patterns.
  *
  * @param projectDir - Project root directory
+ * @param patterns - Channel include/exclude patterns from project config
+ * @param excludedDirs - Additional directories that are not channels (e.g., overlays)
  * @returns Array of discovered channels with pending validation status
  */
-export async function discoverChannels(projectDir: string): Promise<Channel[]> {
+export async function discoverChannels(
+  projectDir: string,
+  patterns?: NamePatterns,
+  excludedDirs: string[] = []
+): Promise<Channel[]> {
   const entries = await fs.promises.readdir(projectDir, { withFileTypes: true });
   const channels: Channel[] = [];
 
@@ -28,7 +41,12 @@ export async function discoverChannels(projectDir: string): Promise<Channel[]> {
     }
 
     // Skip excluded directories
-    if (shouldExcludeDirectory(entry.name)) {
+    if (shouldExcludeDirectory(entry.name) || excludedDirs.includes(entry.name)) {
+      continue;
+    }
+
+    // Skip channels excluded in project config
+    if (!isChannelIncluded(entry.name, patterns)) {
       continue;
     }
 
@@ -109,9 +127,83 @@ export async function findRootConfigs(projectDir: string): Promise<Map<string, s
 
       // Use filename without extension as config name
       const configName = entry.name.replace(/\.(yaml|yml)$/, '');
+
+      // Skip variant files (config@variant.yaml)
+      if (configName.includes('@')) {
+        continue;
+      }
+
       rootConfigs.set(configName, path.join(projectDir, entry.name));
     }
   }
 
   return rootConfigs;
 }
+
+/**
+ * Find group configuration files
+ * These are .yaml files in `_groups/<group>/` that channels inherit from when
+ * they declare the group in their `_channel.yaml`
+ *
+ * @param projectDir - Project root directory
+ * @returns Map of group name to (config name to file path)
+ */
+export async function findGroupConfigs(
+  projectDir: string
+): Promise<Map<string, Map<string, string>>> {
+  const groups = new Map<string, Map<string, string>>();
+  const groupsDir = path.join(projectDir, GROUPS_DIR);
+
+  if (!fs.existsSync(groupsDir)) {
+    return groups;
+  }
+
+  const entries = await fs.promises.readdir(groupsDir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (!entry.isDirectory() || shouldExcludeDirectory(entry.name)) {
+      continue;
+    }
+
+    const groupConfigs = new Map<string, string>();
+    for (const filePath of await findYamlFiles(path.join(groupsDir, entry.name))) {
+      const configName = path.basename(filePath).replace(/\.(yaml|yml)$/, '');
+      groupConfigs.set(configName, filePath);
+    }
+    groups.set(entry.name, groupConfigs);
+  }
+
+  return groups;
+}
+
+/**
+ * Find root-level variant files
+ * These are `config@variant.yaml` files in the project root that channels can
+ * reference with a `$variant` directive
+ *
+ * @param projectDir - Project root directory
+ * @returns Map of config name to (variant name to file path)
+ */
+export async function findRootVariants(
+  projectDir: string
+): Promise<Map<string, Map<string, string>>> {
+  const variants = new Map<string, Map<string, string>>();
+  const entries = await fs.promises.readdir(projectDir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (entry.isFile() && (entry.name.endsWith('.yaml') || entry.name.endsWith('.yml'))) {
+      const baseName = entry.name.replace(/\.(yaml|yml)$/, '');
+      const separator = baseName.indexOf('@');
+      if (separator <= 0 || separator === baseName.length - 1) {
+        continue;
+      }
+
+      const configName = baseName.slice(0, separator);
+      const variantName = baseName.slice(separator + 1);
+      const configVariants = variants.get(configName) ?? new Map<string, string>();
+      configVariants.set(variantName, path.join(projectDir, entry.name));
+      variants.set(configName, configVariants);
+    }
+  }
+
+  return variants;
+}
@@ -1,9 +1,10 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import yaml from 'js-yaml';
-import type { Channel, ChannelConfig } from '../types/index.js';
-import { findRootConfigs } from './discovery.js';
-import { mergeConfigs, shouldInherit } from '../merge/hierarchy.js';
+import type { Channel, ChannelConfig, ConfigLayer, NamePatterns } from '../types/index.js';
+import { findGroupConfigs, findRootConfigs, findRootVariants } from './discovery.js';
+import { isIncluded } from './patterns.js';
+import { mergeLayers, schemasCompatible, shouldInherit } from '../merge/hierarchy.js';
 
 /**
  * Error thrown when YAML loading fails
@@ -19,6 +20,17 @@ export class YamlLoadError extends Error {
   }
 }
 
+/**
+ * Options for loading channel configurations
+ */
+export interface LoadOptions {
+  /** Configuration name filters (files of excluded configs are not loaded) */
+  configs?: NamePatterns;
+
+  /** Environment overlay directory (absolute path) merged on top of channel files */
+  overlay?: string;
+}
+
 /**
  * Load a single YAML file and parse its content
  *
@@ -64,18 +76,64 @@ export async function loadYamlFile(filePath: string): Promise<Record<string, unk
   }
 }
 
+/**
+ * Channel settings file (not a configuration)
+ */
+export const CHANNEL_FILE = '_channel.yaml';
+
+/**
+ * Load the groups a channel declares in its `_channel.yaml`
+ *
+ * @param channel - Channel to load groups for
+ * @param groupConfigs - Group configurations found in the project
+ * @returns Group names in merge order (empty if no `_channel.yaml`)
+ */
+export async function loadChannelGroups(
+  channel: Channel,
+  groupConfigs: Map<string, Map<string, string>>
+): Promise<string[]> {
+  const filePath = path.join(channel.path, CHANNEL_FILE);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const settings = await loadYamlFile(filePath);
+  const groups = settings.groups ?? [];
+
+  if (!Array.isArray(groups) || !groups.every((g) => typeof g === 'string' && g !== '')) {
+    throw new YamlLoadError("'groups' must be a list of group names", filePath);
+  }
+
+  for (const group of groups as string[]) {
+    if (!groupConfigs.has(group)) {
+      throw new YamlLoadError(`Unknown group '${group}': _groups/${group}/ not found`, filePath);
+    }
+  }
+
+  return groups as string[];
+}
+
 /**
  * Load all configurations for a channel
  *
+ * Each configuration is merged from its layers: root -> variant -> groups (in
+ * declared order) -> channel file -> environment overlays. Inheritance requires
+ * an `id` or `$variant` in the channel file; overlays always apply.
+ *
  * @param channel - Channel to load configs for
  * @param projectDir - Project root directory (for finding root configs)
+ * @param options - Load options
  * @returns Channel with populated configs array
  */
 export async function loadChannelConfigs(
   channel: Channel,
-  projectDir: string
+  projectDir: string,
+  options: LoadOptions = {}
 ): Promise<Channel> {
   const rootConfigs = await findRootConfigs(projectDir);
+  const rootVariants = await findRootVariants(projectDir);
+  const groupConfigs = await findGroupConfigs(projectDir);
+  const groups = await loadChannelGroups(channel, groupConfigs);
   const entries = await fs.promises.readdir(channel.path, { withFileTypes: true });
   const configs: ChannelConfig[] = [];
 
@@ -83,30 +141,126 @@ export async function loadChannelConfigs(
     if (!entry.isFile()) continue;
     if (!entry.name.endsWith('.yaml') && !entry.name.endsWith('.yml')) continue;
 
+    // Skip channel settings and other non-configuration files
+    if (entry.name.startsWith('_')) continue;
+
     const configName = entry.name.replace(/\.(yaml|yml)$/, '');
     const configPath = path.join(channel.path, entry.name);
 
+    // Skip excluded configurations
+    if (!isIncluded(configName, options.configs)) continue;
+
     // Load channel config
     const raw = await loadYamlFile(configPath);
 
-    // Check for root config with same name
-    const rootConfigPath = rootConfigs.get(configName);
-    let merged = raw;
+    // Resolve variant referenced by the channel file, if any
+    const { $variant: variantRef, ...overrides } = raw;
+    let variantLayer: ConfigLayer | undefined;
+
+    if (variantRef !== undefined) {
+      if (typeof variantRef !== 'string' || variantRef === '') {
+        throw new YamlLoadError('$variant must be a non-empty string', configPath);
+      }
+
+      const variantPath = rootVariants.get(configName)?.get(variantRef);
+      if (!variantPath) {
+        throw new YamlLoadError(
+          `Unknown variant '${variantRef}': ${configName}@${variantRef}.yaml not found in project root`,
+          configPath
+        );
+      }
+
+      const variantConfig = await loadYamlFile(variantPath);
+      if (variantConfig.$variant !== undefined) {
+        throw new YamlLoadError('Nested variants are not supported', variantPath);
+      }
+      if (!schemasCompatible(variantConfig, overrides)) {
+        throw new YamlLoadError(
+          `$schema does not match variant ${configName}@${variantRef}.yaml`,
+          configPath
+        );
+      }
+      variantLayer = {
+        source: 'variant',
+        name: variantRef,
+        path: variantPath,
+        content: variantConfig,
+      };
+    }
+
+    // Collect inherited layers (referencing a variant opts in too)
+    const layers: ConfigLayer[] = [];
     let inheritsFromRoot = false;
 
-    if (rootConfigPath && shouldInherit(raw)) {
-      const rootConfig = await loadYamlFile(rootConfigPath);
+    if (shouldInherit(raw) || variantLayer) {
+      // Check for root config with same name and matching $schema (or one is missing)
+      const rootConfigPath = rootConfigs.get(configName);
+      if (rootConfigPath) {
+        const rootConfig = await loadYamlFile(rootConfigPath);
+        if (
+          schemasCompatible(rootConfig, overrides) &&
+          (!variantLayer || schemasCompatible(rootConfig, variantLayer.content))
+        ) {
+          layers.push({
+            source: 'root',
+            name: configName,
+            path: rootConfigPath,
+            content: rootConfig,
+          });
+          inheritsFromRoot = true;
+        }
+      }
+
+      if (variantLayer) {
+        layers.push(variantLayer);
+      }
 
-      // Check if $schema matches (or one is missing)
-      const rootSchema = rootConfig.$schema as string | undefined;
-      const channelSchema = raw.$schema as string | undefined;
+      for (const group of groups) {
+        const groupConfigPath = groupConfigs.get(group)?.get(configName);
+        if (!groupConfigPath) continue;
 
-      if (!rootSchema || !channelSchema || rootSchema === channelSchema) {
-        merged = mergeConfigs(rootConfig, raw);
-        inheritsFromRoot = true;
+        const groupConfig = await loadYamlFile(groupConfigPath);
+        if (!schemasCompatible(groupConfig, overrides)) {
+          throw new YamlLoadError(
+            `$schema does not match channel file ${path.relative(projectDir, configPath)}`,
+            groupConfigPath
+          );
+        }
+        layers.push({ source: 'group', name: group, path: groupConfigPath, content: groupConfig });
       }
     }
 
+    layers.push({ source: 'channel', name: channel.name, path: configPath, content: overrides });
+
+    // Environment overlays: <overlay>/<config>.yaml, then <overlay>/<channel>/<config>.yaml
+    if (options.overlay) {
+      const overlayPaths = [
+        findYamlFile(options.overlay, configName),
+        findYamlFile(path.join(options.overlay, channel.name), configName),
+      ];
+
+      for (const overlayPath of overlayPaths) {
+        if (!overlayPath) continue;
+
+        const overlayConfig = await loadYamlFile(overlayPath);
+        if (!schemasCompatible(overlayConfig, overrides)) {
+          throw new YamlLoadError(
+            `$schema does not match channel file ${path.relative(projectDir, configPath)}`,
+            overlayPath
+          );
+        }
+        layers.push({
+          source: 'overlay',
+          name: path.basename(options.overlay),
+          path: overlayPath,
+          content: overlayConfig,
+        });
+      }
+    }
+
+    // Merge order: root -> variant -> groups -> channel overrides -> overlays
+    const merged = layers.length === 1 ? overrides : mergeLayers(layers);
+
     configs.push({
       name: configName,
       path: configPath,
@@ -115,6 +269,9 @@ export async function loadChannelConfigs(
       schemaUrl: merged.$schema as string | undefined,
       id: merged.id as string | undefined,
       inheritsFromRoot,
+      variant: variantLayer?.name,
+      groups: groups.length > 0 ? groups : undefined,
+      layers,
     });
   }
 
@@ -127,21 +284,36 @@ export async function loadChannelConfigs(
   };
 }
 
+/**
+ * Find `<name>.yaml` (or `<name>.yml`) in a directory
+ */
+function findYamlFile(dirPath: string, name: string): string | undefined {
+  for (const extension of ['.yaml', '.yml']) {
+    const filePath = path.join(dirPath, `${name}${extension}`);
+    if (fs.existsSync(filePath)) {
+      return filePath;
+    }
+  }
+  return undefined;
+}
+
 /**
  * Load all channel configurations for a project
  *
  * @param channels - Discovered channels
  * @param projectDir - Project root directory
+ * @param options - Load options
  * @returns Channels with populated configs
  */
 export async function loadAllChannelConfigs(
   channels: Channel[],
-  projectDir: string
+  projectDir: string,
+  options: LoadOptions = {}
 ): Promise<Channel[]> {
   const loadedChannels: Channel[] = [];
 
   for (const channel of channels) {
-    const loaded = await loadChannelConfigs(channel, projectDir);
+    const loaded = await loadChannelConfigs(channel, projectDir, options);
     loadedChannels.push(loaded);
   }
 
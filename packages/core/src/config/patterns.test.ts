@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchesPattern,
+  isIncluded,
+  isChannelIncluded,
+  selectChannels,
+  DEFAULT_CONFIG_EXCLUDES,
+} from './patterns.js';
+
+describe('matchesPattern', () => {
+  it('matches * and ? wildcards against the whole name', () => {
+    expect(matchesPattern('checkout_layout_main', 'checkout_layout_*')).toBe(true);
+    expect(matchesPattern('se-1', 'se-?')).toBe(true);
+    expect(matchesPattern('se-10', 'se-?')).toBe(false);
+    expect(matchesPattern('x-se-1', 'se-*')).toBe(false);
+  });
+
+  it('treats regex characters literally', () => {
+    expect(matchesPattern('a.b', 'a.b')).toBe(true);
+    expect(matchesPattern('axb', 'a.b')).toBe(false);
+  });
+});
+
+describe('isIncluded', () => {
+  const patterns = { include: ['checkout_layout_custom'], exclude: DEFAULT_CONFIG_EXCLUDES };
+
+  it('excludes names matching an exclude pattern', () => {
+    expect(isIncluded('checkout_layout_main', patterns)).toBe(false);
+    expect(isIncluded('admin_meta', patterns)).toBe(false);
+  });
+
+  it('lets include patterns override exclude patterns', () => {
+    expect(isIncluded('checkout_layout_custom', patterns)).toBe(true);
+  });
+
+  it('keeps names that match neither list', () => {
+    expect(isIncluded('norce_adapter', patterns)).toBe(true);
+    expect(isIncluded('norce_adapter', undefined)).toBe(true);
+  });
+});
+
+describe('isChannelIncluded', () => {
+  it('selects only matching channels with an include list', () => {
+    const patterns = { include: ['se-*'] };
+    expect(isChannelIncluded('se-klarna', patterns)).toBe(true);
+    expect(isChannelIncluded('no-klarna', patterns)).toBe(false);
+  });
+
+  it('includes every channel that is not excluded without an include list', () => {
+    const patterns = { include: [], exclude: ['demo-*'] };
+    expect(isChannelIncluded('se-klarna', patterns)).toBe(true);
+    expect(isChannelIncluded('demo-1', patterns)).toBe(false);
+    expect(isChannelIncluded('demo-1', undefined)).toBe(true);
+  });
+});
+
+describe('selectChannels', () => {
+  const channels = [{ name: 'se-klarna' }, { name: 'se-walley' }, { name: 'norway' }];
+
+  it('returns all channels without patterns', () => {
+    expect(selectChannels(channels, undefined)).toEqual(channels);
+  });
+
+  it('selects channels matching any pattern, in their original order', () => {
+    expect(selectChannels(channels, ['norway', 'se-w*'])).toEqual([
+      { name: 'se-walley' },
+      { name: 'norway' },
+    ]);
+  });
+
+  it('throws when a pattern matches no channel', () => {
+    expect(() => selectChannels(channels, ['finland'])).toThrow("Channel 'finland' not found");
+    expect(() => selectChannels(channels, ['dk-*'], 'remotely')).toThrow(
+      "No channel matches 'dk-*' remotely"
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import type { NamePatterns } from '../types/index.js';
+
+/**
+ * Configurations auto-generated by admin/checkout that are excluded by default
+ */
+export const DEFAULT_CONFIG_EXCLUDES = [
+  'admin_meta',
+  'checkout_application',
+  'checkout_layout_*',
+  'checkout_meta_*',
+];
+
+/**
+ * Check if a name matches a glob pattern
+ *
+ * Supports `*` (any characters) and `?` (a single character).
+ *
+ * @param name - Name to test
+ * @param pattern - Glob pattern
+ * @returns true if the whole name matches the pattern
+ */
+export function matchesPattern(name: string, pattern: string): boolean {
+  const regex = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  return new RegExp(`^${regex}$`).test(name);
+}
+
+/**
+ * Check if a name matches any of the given glob patterns
+ */
+export function matchesAnyPattern(name: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => matchesPattern(name, pattern));
+}
+
+/**
+ * Check if a name is selected by include/exclude patterns
+ *
+ * Include patterns take precedence over exclude patterns.
+ *
+ * @param name - Name to test
+ * @param patterns - Include/exclude patterns (everything is included if omitted)
+ * @returns true if the name is managed
+ */
+export function isIncluded(name: string, patterns: NamePatterns | undefined): boolean {
+  if (matchesAnyPattern(name, patterns?.include ?? [])) {
+    return true;
+  }
+  return !matchesAnyPattern(name, patterns?.exclude ?? []);
+}
+
+/**
+ * Check if a channel name is selected by the project's channel patterns
+ *
+ * Unlike configuration names, which are managed unless excluded, a non-empty
+ * channel include list is an allow-list: only the channels it matches are
+ * managed. Without an include list, every channel not excluded is managed.
+ *
+ * @param name - Channel name
+ * @param patterns - Channel include/exclude patterns (everything is included if omitted)
+ * @returns true if the channel is managed
+ */
+export function isChannelIncluded(name: string, patterns: NamePatterns | undefined): boolean {
+  if (patterns?.include && patterns.include.length > 0) {
+    return matchesAnyPattern(name, patterns.include);
+  }
+  return !matchesAnyPattern(name, patterns?.exclude ?? []);
+}
+
+/**
+ * Select channels matching any of the given names or glob patterns
+ *
+ * @param channels - Channels to select from
+ * @param patterns - Channel names or glob patterns (all channels if empty)
+ * @param location - Where the channels were looked up, used in the error message
+ * @returns Matching channels, in their original order
+ * @throws Error if a pattern matches no channel
+ */
+export function selectChannels<T extends { name: string }>(
+  channels: T[],
+  patterns: string[] | undefined,
+  location?: string
+): T[] {
+  if (!patterns || patterns.length === 0) {
+    return channels;
+  }
+
+  for (const pattern of patterns) {
+    if (!channels.some((ch) => matchesPattern(ch.name, pattern))) {
+      const where = location ? ` ${location}` : '';
+      throw new Error(
+        pattern.includes('*') || pattern.includes('?')
+          ? `No channel matches '${pattern}'${where}`
+          : `Channel '${pattern}' not found${where}`
+      );
+    }
+  }
+
+  return channels.filter((ch) => matchesAnyPattern(ch.name, patterns));
+}
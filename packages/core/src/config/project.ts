@@ -1,11 +1,22 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import yaml from 'js-yaml';
-import type { ProjectConfig } from '../types/index.js';
+import type { ProjectConfig, ResolvedEnvironment } from '../types/index.js';
+import { DEFAULT_CONFIG_EXCLUDES } from './patterns.js';
+import { DEFAULT_TOKEN_ENV } from '../secrets/env.js';
 
-const CONFIG_FILENAME = 'ncoctl.config.yaml';
+export const CONFIG_FILENAME = 'ncoctl.config.yaml';
 const DEFAULT_SCHEMA_CACHE_DIR = '.ncoctl/schemas';
 const DEFAULT_SCHEMA_CACHE_TTL = 86400; // 24 hours
+const PRODUCTION_ENVIRONMENTS = ['prod', 'production'];
+
+/**
+ * Options for loading project configuration
+ */
+export interface ProjectConfigOptions {
+  /** Environment to target (from the environments section) */
+  environment?: string;
+}
 
 /**
  * Error thrown when project configuration is invalid
@@ -20,11 +31,18 @@ export class ProjectConfigError extends Error {
 /**
  * Load project configuration from ncoctl.config.yaml
  *
+ * When an environment is given, its API settings replace the top-level `api`
+ * section and the resolved environment is available as `config.environment`.
+ *
  * @param projectDir - Directory containing ncoctl.config.yaml
+ * @param options - Load options
  * @returns Validated ProjectConfig
- * @throws ProjectConfigError if config is missing or invalid
+ * @throws ProjectConfigError if config is missing or invalid, or the environment is unknown
  */
-export async function loadProjectConfig(projectDir: string): Promise<ProjectConfig> {
+export async function loadProjectConfig(
+  projectDir: string,
+  options: ProjectConfigOptions = {}
+): Promise<ProjectConfig> {
   const configPath = path.join(projectDir, CONFIG_FILENAME);
 
   // Check if config file exists
@@ -49,6 +67,18 @@ export async function loadProjectConfig(projectDir: string): Promise<ProjectConf
   // Validate structure
   const config = validateProjectConfig(rawConfig, configPath);
 
+  // Select environment
+  if (options.environment !== undefined) {
+    return selectEnvironment(applyDefaults(config, projectDir), options.environment, projectDir);
+  }
+
+  if (config.api === undefined) {
+    const names = Object.keys(config.environments ?? {}).join(', ');
+    throw new ProjectConfigError(
+      `No top-level 'api' section in ${configPath}. Select an environment with --env (available: ${names})`
+    );
+  }
+
   // Apply defaults
   return applyDefaults(config, projectDir);
 }
@@ -70,28 +100,15 @@ function validateProjectConfig(raw: unknown, configPath: string): ProjectConfig
     );
   }
 
-  // Validate api section
-  if (typeof obj.api !== 'object' || obj.api === null) {
-    throw new ProjectConfigError(
-      `Invalid configuration in ${configPath}: 'api' section is required`
-    );
+  // Validate optional environments section (null is treated as not specified)
+  const hasEnvironments = obj.environments !== undefined && obj.environments !== null;
+  if (hasEnvironments) {
+    validateEnvironments(obj.environments, configPath);
   }
 
-  const api = obj.api as Record<string, unknown>;
-
-  if (typeof api.baseUrl !== 'string' || api.baseUrl.trim() === '') {
-    throw new ProjectConfigError(
-      `Invalid configuration in ${configPath}: 'api.baseUrl' is required and must be a non-empty string`
-    );
-  }
-
-  // Validate URL format
-  try {
-    new URL(api.baseUrl);
-  } catch {
-    throw new ProjectConfigError(
-      `Invalid configuration in ${configPath}: 'api.baseUrl' must be a valid URL`
-    );
+  // Validate api section (optional when every environment has its own)
+  if (obj.api !== undefined || !hasEnvironments) {
+    validateApi(obj.api, 'api', configPath);
   }
 
   // Validate optional schema section (null is treated as not specified)
@@ -113,6 +130,16 @@ function validateProjectConfig(raw: unknown, configPath: string): ProjectConfig
     }
   }
 
+  // Validate optional configs section (null is treated as not specified)
+  if (obj.configs !== undefined && obj.configs !== null) {
+    validatePatterns(obj.configs, 'configs', configPath);
+  }
+
+  // Validate optional channels section (null is treated as not specified)
+  if (obj.channels !== undefined && obj.channels !== null) {
+    validatePatterns(obj.channels, 'channels', configPath);
+  }
+
   // Validate optional output section (null is treated as not specified)
   if (obj.output !== undefined && obj.output !== null) {
     if (typeof obj.output !== 'object') {
@@ -133,6 +160,167 @@ function validateProjectConfig(raw: unknown, configPath: string): ProjectConfig
   return obj as unknown as ProjectConfig;
 }
 
+/**
+ * Validate an api section
+ */
+function validateApi(value: unknown, section: string, configPath: string): void {
+  if (typeof value !== 'object' || value === null) {
+    throw new ProjectConfigError(
+      `Invalid configuration in ${configPath}: '${section}' section is required`
+    );
+  }
+
+  const api = value as Record<string, unknown>;
+
+  if (typeof api.baseUrl !== 'string' || api.baseUrl.trim() === '') {
+    throw new ProjectConfigError(
+      `Invalid configuration in ${configPath}: '${section}.baseUrl' is required and must be a non-empty string`
+    );
+  }
+
+  // Validate URL format
+  try {
+    new URL(api.baseUrl);
+  } catch {
+    throw new ProjectConfigError(
+      `Invalid configuration in ${configPath}: '${section}.baseUrl' must be a valid URL`
+    );
+  }
+
+  if (
+    api.concurrency !== undefined &&
+    (typeof api.concurrency !== 'number' ||
+      !Number.isInteger(api.concurrency) ||
+      api.concurrency < 1)
+  ) {
+    throw new ProjectConfigError(
+      `Invalid configuration in ${configPath}: '${section}.concurrency' must be a positive integer`
+    );
+  }
+}
+
+/**
+ * Validate the environments section
+ */
+function validateEnvironments(value: unknown, configPath: string): void {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ProjectConfigError(
+      `Invalid configuration in ${configPath}: 'environments' must be an object`
+    );
+  }
+
+  for (const [name, env] of Object.entries(value as Record<string, unknown>)) {
+    const section = `environments.${name}`;
+
+    if (typeof env !== 'object' || env === null || Array.isArray(env)) {
+      throw new ProjectConfigError(
+        `Invalid configuration in ${configPath}: '${section}' must be an object`
+      );
+    }
+
+    const environment = env as Record<string, unknown>;
+    validateApi(environment.api, `${section}.api`, configPath);
+
+    for (const key of ['tokenEnv', 'overlay']) {
+      const setting = environment[key];
+      if (setting !== undefined && (typeof setting !== 'string' || setting.trim() === '')) {
+        throw new ProjectConfigError(
+          `Invalid configuration in ${configPath}: '${section}.${key}' must be a non-empty string`
+        );
+      }
+    }
+
+    if (environment.production !== undefined && typeof environment.production !== 'boolean') {
+      throw new ProjectConfigError(
+        `Invalid configuration in ${configPath}: '${section}.production' must be a boolean`
+      );
+    }
+  }
+}
+
+/**
+ * Select a named environment, replacing the API settings with the environment's
+ */
+function selectEnvironment(config: ProjectConfig, name: string, projectDir: string): ProjectConfig {
+  const envConfig = config.environments?.[name];
+  if (!envConfig) {
+    const names = Object.keys(config.environments ?? {});
+    throw new ProjectConfigError(
+      `Unknown environment '${name}'. ` +
+        (names.length > 0
+          ? `Available environments: ${names.join(', ')}`
+          : `No environments are defined in ${CONFIG_FILENAME}`)
+    );
+  }
+
+  const environment: ResolvedEnvironment = {
+    name,
+    tokenEnv: envConfig.tokenEnv ?? DEFAULT_TOKEN_ENV,
+    overlay: envConfig.overlay ? path.resolve(projectDir, envConfig.overlay) : undefined,
+    production: envConfig.production ?? PRODUCTION_ENVIRONMENTS.includes(name),
+  };
+
+  return {
+    ...config,
+    api: {
+      baseUrl: envConfig.api.baseUrl,
+      // Token from env var takes precedence
+      token: process.env[environment.tokenEnv] ?? envConfig.api.token,
+      concurrency: envConfig.api.concurrency ?? config.api?.concurrency,
+    },
+    environment,
+  };
+}
+
+/**
+ * Get the top-level project directories holding environment overlays
+ *
+ * These directories are never channels, whichever environment is selected.
+ *
+ * @param config - Project configuration
+ * @returns Directory names relative to the project root
+ */
+export function getOverlayDirectories(config: ProjectConfig): string[] {
+  const dirs = new Set<string>();
+
+  for (const env of Object.values(config.environments ?? {})) {
+    if (env.overlay) {
+      const [topLevel] = path.normalize(env.overlay).split(path.sep);
+      if (topLevel && topLevel !== '.' && topLevel !== '..') {
+        dirs.add(topLevel);
+      }
+    }
+  }
+
+  return [...dirs];
+}
+
+/**
+ * Validate an include/exclude pattern section
+ */
+function validatePatterns(value: unknown, section: string, configPath: string): void {
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ProjectConfigError(
+      `Invalid configuration in ${configPath}: '${section}' must be an object`
+    );
+  }
+
+  const patterns = value as Record<string, unknown>;
+
+  for (const key of ['include', 'exclude']) {
+    const list = patterns[key];
+    if (list === undefined || list === null) {
+      continue;
+    }
+
+    if (!Array.isArray(list) || !list.every((item) => typeof item === 'string' && item !== '')) {
+      throw new ProjectConfigError(
+        `Invalid configuration in ${configPath}: '${section}.${key}' must be a list of non-empty strings`
+      );
+    }
+  }
+}
+
 /**
  * Apply default values to config
  */
@@ -142,13 +330,21 @@ function applyDefaults(config: ProjectConfig, projectDir: string): ProjectConfig
     api: {
       ...config.api,
       // Token from env var takes precedence
-      token: process.env.NCO_API_TOKEN ?? config.api.token,
+      token: process.env.NCO_API_TOKEN ?? config.api?.token,
     },
     schema: {
       cacheDir: config.schema?.cacheDir ?? path.join(projectDir, DEFAULT_SCHEMA_CACHE_DIR),
       cacheTtl: config.schema?.cacheTtl ?? DEFAULT_SCHEMA_CACHE_TTL,
       skip: config.schema?.skip ?? false,
     },
+    configs: {
+      include: config.configs?.include ?? [],
+      exclude: config.configs?.exclude ?? DEFAULT_CONFIG_EXCLUDES,
+    },
+    channels: {
+      include: config.channels?.include ?? [],
+      exclude: config.channels?.exclude ?? [],
+    },
     output: {
       format: config.output?.format ?? 'text',
       verbose: config.output?.verbose ?? false,
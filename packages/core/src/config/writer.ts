@@ -0,0 +1,52 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import yaml from 'js-yaml';
+
+/**
+ * Keys that are written first, in this order, when serializing a configuration
+ */
+const LEADING_KEYS = ['$schema', 'id'];
+
+/**
+ * Serialize a configuration object as YAML
+ *
+ * `$schema` and `id` are placed first so written files look like hand-written ones.
+ *
+ * @param config - Configuration object
+ * @returns YAML document
+ */
+export function serializeConfig(config: Record<string, unknown>): string {
+  const ordered: Record<string, unknown> = {};
+
+  for (const key of LEADING_KEYS) {
+    if (key in config) {
+      ordered[key] = config[key];
+    }
+  }
+
+  for (const [key, value] of Object.entries(config)) {
+    if (!LEADING_KEYS.includes(key)) {
+      ordered[key] = value;
+    }
+  }
+
+  return yaml.dump(ordered, {
+    lineWidth: -1,
+    noRefs: true,
+    quotingType: '"',
+  });
+}
+
+/**
+ * Write a configuration object to a YAML file, creating parent directories
+ *
+ * @param filePath - Absolute path to YAML file
+ * @param config - Configuration object
+ */
+export async function writeYamlFile(
+  filePath: string,
+  config: Record<string, unknown>
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.writeFile(filePath, serializeConfig(config), 'utf-8');
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { planDelete, deleteRemote } from './service.js';
+import { planRollback } from '../rollback/service.js';
+import { applyConfigs } from '../apply/service.js';
+import { listBackups } from '../backup/store.js';
+import { readHistory } from '../history/log.js';
+import { loadProjectConfig } from '../config/project.js';
+import { createFakeApi, type FakeApi, type RemoteData } from '../__tests__/helpers/fake-api.js';
+import { createTestProject, cleanupTestProject } from '../__tests__/helpers/project.js';
+
+const REMOTE: RemoteData = {
+  sweden: {
+    klarna_checkout: { id: 'klarna_checkout', timeout: 10 },
+    adyen_checkout: { id: 'adyen_checkout', timeout: 20 },
+  },
+};
+
+describe('deleteRemote', () => {
+  let projectDir: string;
+  let api: FakeApi;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject();
+    api = createFakeApi(REMOTE);
+  });
+
+  afterEach(async () => {
+    api.restore();
+    await cleanupTestProject(projectDir);
+  });
+
+  it('backs up and records the deleted configuration so it can be rolled back', async () => {
+    const config = await loadProjectConfig(projectDir);
+    const target = await planDelete(projectDir, config, 'sweden', 'klarna_checkout');
+
+    const result = await deleteRemote(projectDir, config, target);
+
+    expect(result.success).toBe(true);
+    expect(api.snapshot()['sweden']).toEqual({
+      adyen_checkout: REMOTE['sweden']!['adyen_checkout'],
+    });
+
+    const [backup] = await listBackups(projectDir);
+    expect(backup?.runId).toBe(result.runId);
+    expect(backup?.entries).toEqual([
+      { channel: 'sweden', config: 'klarna_checkout', action: 'delete', existed: true },
+    ]);
+
+    const [entry] = await readHistory(projectDir);
+    expect(entry).toMatchObject({
+      runId: result.runId,
+      success: true,
+      results: [{ channel: 'sweden', config: 'klarna_checkout', status: 'delete', success: true }],
+    });
+
+    const { plan, payloads } = await planRollback(projectDir, config, backup!);
+    await applyConfigs(projectDir, config, plan, { payloads });
+    expect(api.snapshot()).toEqual(REMOTE);
+  });
+
+  it('backs up configurations created in a channel after planning its deletion', async () => {
+    const config = await loadProjectConfig(projectDir);
+    const target = await planDelete(projectDir, config, 'sweden');
+    api.channels.get('sweden')!.set('walley_checkout', { id: 'walley_checkout' });
+
+    const result = await deleteRemote(projectDir, config, target);
+
+    expect(result.configs).toEqual(['adyen_checkout', 'klarna_checkout', 'walley_checkout']);
+    expect(api.channels.has('sweden')).toBe(false);
+    const [backup] = await listBackups(projectDir);
+    expect(backup?.entries.map((e) => e.config)).toEqual(result.configs);
+  });
+
+  it('records a failed delete without a backup run id', async () => {
+    api.fail('DELETE', '/klarna_checkout');
+    const config = await loadProjectConfig(projectDir);
+    const target = await planDelete(projectDir, config, 'sweden', 'klarna_checkout');
+
+    const result = await deleteRemote(projectDir, config, target);
+
+    expect(result.success).toBe(false);
+    expect(result.runId).toBeUndefined();
+    const [entry] = await readHistory(projectDir);
+    expect(entry?.results).toMatchObject([{ config: 'klarna_checkout', success: false }]);
+  });
+});
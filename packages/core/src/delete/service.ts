@@ -0,0 +1,259 @@
+import type { ProjectConfig, ConfigApplyResult } from '../types/index.js';
+import type { ChannelPlan } from '../plan/types.js';
+import { ConfigurationApiClient, ApiError } from '../api/client.js';
+import { getEnvironment, resolveApiToken } from '../secrets/env.js';
+import { calculateSummary } from '../plan/service.js';
+import { createBackup, backupConfig, recordBackupEntry } from '../backup/store.js';
+import { recordApplyRun } from '../history/log.js';
+
+/**
+ * Remote configurations selected for deletion
+ */
+export interface DeleteTarget {
+  /** Channel name */
+  channel: string;
+
+  /** Configuration names that will be deleted */
+  configs: string[];
+
+  /** Whether the whole channel is deleted (no configuration name given) */
+  wholeChannel: boolean;
+
+  /** Whether the channel disappears remotely after deletion */
+  removesChannel: boolean;
+}
+
+/**
+ * Result of a delete operation
+ */
+export interface DeleteResult {
+  /** Whether delete succeeded */
+  success: boolean;
+
+  /** Channel name */
+  channel: string;
+
+  /** Configuration names that were deleted */
+  configs: string[];
+
+  /** Whether the whole channel was deleted */
+  wholeChannel: boolean;
+
+  /** Id of the backup of the deleted configurations (when anything was deleted) */
+  runId?: string;
+
+  /** Error message if failed */
+  error?: string;
+
+  /** Problems that did not fail the delete (e.g., the history could not be written) */
+  warnings?: string[];
+}
+
+/**
+ * Look up what a delete of a channel or configuration will remove
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration
+ * @param channel - Remote channel name
+ * @param configName - Configuration name (omit to delete the whole channel)
+ * @returns Delete target listing the remote configurations that will be removed
+ */
+export async function planDelete(
+  projectDir: string,
+  config: ProjectConfig,
+  channel: string,
+  configName?: string
+): Promise<DeleteTarget> {
+  const client = await createClient(projectDir, config);
+
+  // Check that the channel exists remotely
+  let remoteChannels: string[];
+  try {
+    remoteChannels = (await client.listChannels()).map((ch) => ch.name);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw new Error(`Failed to list remote channels: ${error.message}`);
+    }
+    throw error;
+  }
+
+  if (!remoteChannels.includes(channel)) {
+    throw new Error(`Channel '${channel}' not found remotely`);
+  }
+
+  const remoteConfigs = (await client.listConfigs(channel))
+    .map((c) => c.id)
+    .sort((a, b) => a.localeCompare(b));
+
+  if (configName === undefined) {
+    return {
+      channel,
+      configs: remoteConfigs,
+      wholeChannel: true,
+      removesChannel: true,
+    };
+  }
+
+  if (!remoteConfigs.includes(configName)) {
+    throw new Error(`Configuration '${configName}' not found in remote channel '${channel}'`);
+  }
+
+  return {
+    channel,
+    configs: [configName],
+    wholeChannel: false,
+    removesChannel: remoteConfigs.length === 1,
+  };
+}
+
+/**
+ * Delete a remote channel or configuration
+ *
+ * Like an apply run, the deleted configurations are backed up first (so the
+ * delete can be undone with `ncoctl rollback`) and the run is recorded in the
+ * history. A whole channel is listed again before deleting it, so
+ * configurations created since planning are backed up too.
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration
+ * @param target - Delete target from planDelete
+ * @returns Delete result
+ */
+export async function deleteRemote(
+  projectDir: string,
+  config: ProjectConfig,
+  target: DeleteTarget
+): Promise<DeleteResult> {
+  const client = await createClient(projectDir, config);
+  const backup = createBackup(config);
+  const { channel } = target;
+  let configs = target.configs;
+  const deleted: string[] = [];
+  let errorMessage: string | undefined;
+
+  try {
+    // Back up the remote configurations before removing anything
+    const remoteConfigs = new Map((await client.listConfigs(channel)).map((c) => [c.id, c]));
+    if (target.wholeChannel) {
+      configs = [...remoteConfigs.keys()].sort((a, b) => a.localeCompare(b));
+    }
+    for (const configName of configs) {
+      await backupConfig(
+        projectDir,
+        backup,
+        channel,
+        configName,
+        remoteConfigs.get(configName) ?? null
+      );
+    }
+
+    const removed = async (configName: string): Promise<void> => {
+      deleted.push(configName);
+      await recordBackupEntry(projectDir, backup, {
+        channel,
+        config: configName,
+        action: 'delete',
+        existed: remoteConfigs.has(configName),
+      });
+    };
+
+    if (target.wholeChannel) {
+      await client.deleteChannel(channel);
+      for (const configName of configs) {
+        await removed(configName);
+      }
+    } else {
+      for (const configName of configs) {
+        await client.deleteConfig(channel, configName);
+        await removed(configName);
+      }
+    }
+  } catch (error) {
+    errorMessage =
+      error instanceof ApiError
+        ? `API error (${error.statusCode}): ${error.message}`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+  }
+
+  const result: DeleteResult = {
+    success: errorMessage === undefined,
+    channel,
+    configs,
+    wholeChannel: target.wholeChannel,
+    runId: backup.entries.length > 0 ? backup.runId : undefined,
+    error: errorMessage,
+  };
+
+  // Append the run to the audit log; like apply, failing to write it does not fail the
+  // delete, but it is reported
+  await recordDeleteRun(projectDir, config, result, deleted).catch((error: unknown) => {
+    result.warnings = [`Could not record the delete in the history: ${(error as Error).message}`];
+  });
+
+  return result;
+}
+
+/**
+ * Record a delete in the history as an apply run of deletions
+ */
+async function recordDeleteRun(
+  projectDir: string,
+  config: ProjectConfig,
+  result: DeleteResult,
+  deleted: string[]
+): Promise<void> {
+  const channelPlan: ChannelPlan = {
+    channel: result.channel,
+    existsRemotely: true,
+    configs: result.configs.map((name) => ({ name, status: 'delete', diffs: [] })),
+  };
+  const results: ConfigApplyResult[] = result.configs.map((name) =>
+    deleted.includes(name)
+      ? { channel: result.channel, config: name, success: true }
+      : { channel: result.channel, config: name, success: false, error: result.error }
+  );
+
+  await recordApplyRun(
+    projectDir,
+    config,
+    {
+      merchant: config.merchant,
+      environment: config.environment?.name,
+      timestamp: new Date().toISOString(),
+      channels: [channelPlan],
+      unmanagedChannels: [],
+      summary: calculateSummary([channelPlan], []),
+    },
+    {
+      success: result.success,
+      runId: result.runId,
+      results,
+      summary: {
+        succeeded: deleted.length,
+        failed: results.length - deleted.length,
+        conflicts: 0,
+        rolledBack: 0,
+        skipped: 0,
+      },
+    }
+  );
+}
+
+/**
+ * Create an API client using the token from the environment or project config
+ */
+async function createClient(
+  projectDir: string,
+  config: ProjectConfig
+): Promise<ConfigurationApiClient> {
+  const env = await getEnvironment(projectDir, config.environment);
+  const token = resolveApiToken(env, config);
+
+  return new ConfigurationApiClient({
+    baseUrl: config.api.baseUrl,
+    token,
+    merchant: config.merchant,
+  });
+}
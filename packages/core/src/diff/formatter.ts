@@ -46,16 +46,28 @@ export function formatFieldDiff(diff: FieldDiff, options: FormatOptions = {}): s
     return String(value);
   };
 
+  // In verbose mode, show which layer supplied the local value
+  const source =
+    options.verbose && diff.source ? ` ${c('dim')}(from ${diff.source})${c('reset')}` : '';
+
+  // Which side changed since the last apply
+  const origins = {
+    local: `${c('cyan')}[local change]${c('reset')}`,
+    remote: `${c('yellow')}[remote drift]${c('reset')}`,
+    conflict: `${c('red')}[conflict]${c('reset')}`,
+  };
+  const origin = diff.origin ? ` ${origins[diff.origin]}` : '';
+
   switch (diff.type) {
     case 'add':
-      return `${c('green')}+ ${diff.path}: ${formatValue(diff.newValue)}${c('reset')}`;
+      return `${c('green')}+ ${diff.path}: ${formatValue(diff.newValue)}${c('reset')}${origin}${source}`;
 
     case 'remove':
-      return `${c('red')}- ${diff.path}: ${formatValue(diff.oldValue)}${c('reset')}`;
+      return `${c('red')}- ${diff.path}: ${formatValue(diff.oldValue)}${c('reset')}${origin}${source}`;
 
     case 'change':
       return [
-        `${c('yellow')}~ ${diff.path}:${c('reset')}`,
+        `${c('yellow')}~ ${diff.path}:${c('reset')}${origin}${source}`,
         `  ${c('red')}- ${formatValue(diff.oldValue)}${c('reset')}`,
         `  ${c('green')}+ ${formatValue(diff.newValue)}${c('reset')}`,
       ].join('\n');
@@ -82,19 +94,27 @@ export function formatConfigPlan(config: ConfigPlan, options: FormatOptions = {}
   const lines: string[] = [];
 
   // Status indicator and config name
+  const name = config.variant ? `${config.name} (via @${config.variant})` : config.name;
+
   switch (config.status) {
     case 'create':
-      lines.push(`${c('green')}+ ${config.name}${c('reset')} (create)`);
+      lines.push(`${c('green')}+ ${name}${c('reset')} (create)`);
       break;
     case 'update':
-      lines.push(`${c('yellow')}~ ${config.name}${c('reset')} (update)`);
+      lines.push(`${c('yellow')}~ ${name}${c('reset')} (update)`);
+      break;
+    case 'delete':
+      lines.push(`${c('red')}- ${name}${c('reset')} (delete)`);
       break;
     case 'unchanged':
-      lines.push(`${c('dim')}  ${config.name}${c('reset')} (unchanged)`);
+      lines.push(`${c('dim')}  ${name}${c('reset')} (unchanged)`);
+      break;
+    case 'unmanaged':
+      lines.push(`${c('red')}! ${name}${c('reset')} (unmanaged, remote only)`);
       break;
   }
 
-  // Show diffs for create and update
+  // Show diffs for create, update and delete
   if (config.status !== 'unchanged' && config.diffs.length > 0) {
     for (const diff of config.diffs) {
       const formatted = formatFieldDiff(diff, options);
@@ -140,7 +160,14 @@ export function formatPlan(plan: Plan, options: FormatOptions = {}): string {
   const lines: string[] = [];
 
   // Header
-  lines.push(`${c('bold')}Plan for merchant: ${plan.merchant}${c('reset')}`);
+  const context = [
+    plan.environment ? `environment: ${plan.environment}` : '',
+    plan.promotedFrom ? `promoted from ${plan.promotedFrom}` : '',
+    plan.against ? `against ${plan.against}` : '',
+    plan.rollbackOf ? `rollback of ${plan.rollbackOf}` : '',
+  ].filter((part) => part !== '');
+  const environment = context.length > 0 ? ` (${context.join(', ')})` : '';
+  lines.push(`${c('bold')}Plan for merchant: ${plan.merchant}${environment}${c('reset')}`);
   lines.push(`Generated at: ${plan.timestamp}`);
   lines.push('');
 
@@ -158,15 +185,30 @@ export function formatPlan(plan: Plan, options: FormatOptions = {}): string {
   if (plan.summary.updates > 0) {
     lines.push(`  ${c('yellow')}~ ${plan.summary.updates} to update${c('reset')}`);
   }
+  if (plan.summary.deletes > 0) {
+    lines.push(`  ${c('red')}- ${plan.summary.deletes} to delete${c('reset')}`);
+  }
   if (plan.summary.unchanged > 0) {
     lines.push(`  ${c('dim')}  ${plan.summary.unchanged} unchanged${c('reset')}`);
   }
   if (plan.summary.unmanaged > 0) {
     lines.push(`  ${c('red')}! ${plan.summary.unmanaged} unmanaged (remote only)${c('reset')}`);
   }
+  if (plan.summary.unmanagedChannels > 0) {
+    lines.push(
+      `  ${c('red')}! ${plan.summary.unmanagedChannels} unmanaged channel(s) (remote only): ${plan.unmanagedChannels.join(', ')}${c('reset')}`
+    );
+  }
 
-  const totalChanges = plan.summary.creates + plan.summary.updates;
-  if (totalChanges === 0) {
+  const totalChanges = plan.summary.creates + plan.summary.updates + plan.summary.deletes;
+  if (plan.against) {
+    lines.push('');
+    lines.push(
+      totalChanges === 0
+        ? `No changes since ${plan.against}.`
+        : `${totalChanges} configuration(s) changed since ${plan.against}.`
+    );
+  } else if (totalChanges === 0) {
     lines.push('');
     lines.push('No changes to apply.');
   } else {
@@ -174,6 +216,23 @@ export function formatPlan(plan: Plan, options: FormatOptions = {}): string {
     lines.push(`${totalChanges} configuration(s) will be updated.`);
   }
 
+  // Fields changed remotely since the last apply would be overwritten
+  const origins = plan.channels.flatMap((ch) =>
+    ch.configs.flatMap((config) => config.diffs.map((diff) => diff.origin))
+  );
+  const drifted = origins.filter((origin) => origin === 'remote').length;
+  const conflicts = origins.filter((origin) => origin === 'conflict').length;
+  if (drifted > 0) {
+    lines.push(
+      `${c('yellow')}${drifted} field(s) drifted remotely since the last apply and will be reverted.${c('reset')}`
+    );
+  }
+  if (conflicts > 0) {
+    lines.push(
+      `${c('red')}${conflicts} field(s) changed both locally and remotely since the last apply.${c('reset')}`
+    );
+  }
+
   return lines.join('\n');
 }
 
@@ -192,6 +251,9 @@ export function formatPlanSummary(plan: Plan, options: FormatOptions = {}): stri
   if (plan.summary.updates > 0) {
     parts.push(`${c('yellow')}~${plan.summary.updates}${c('reset')}`);
   }
+  if (plan.summary.deletes > 0) {
+    parts.push(`${c('red')}-${plan.summary.deletes}${c('reset')}`);
+  }
   if (plan.summary.unchanged > 0) {
     parts.push(`${c('dim')}=${plan.summary.unchanged}${c('reset')}`);
   }
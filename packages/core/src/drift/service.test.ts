@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { detectDrift, formatDriftResult } from './service.js';
+import { loadProjectConfig } from '../config/project.js';
+import { createFakeApi, type FakeApi } from '../__tests__/helpers/fake-api.js';
+import { createTestProject, cleanupTestProject } from '../__tests__/helpers/project.js';
+
+const KLARNA = { id: 'klarna_checkout', timeout: 30 };
+
+describe('detectDrift', () => {
+  let projectDir: string;
+  let api: FakeApi;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject({ 'sweden/klarna_checkout.yaml': KLARNA });
+  });
+
+  afterEach(async () => {
+    api.restore();
+    await cleanupTestProject(projectDir);
+  });
+
+  it('reports no drift when the remote matches', async () => {
+    api = createFakeApi({ sweden: { klarna_checkout: KLARNA } });
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await detectDrift(projectDir, config);
+
+    expect(result.drifted).toBe(false);
+    expect(result.summary).toEqual({ configs: 0, channels: 0, unmanagedChannels: 0, checked: 1 });
+  });
+
+  it('counts remote configurations and channels without a local file as drift', async () => {
+    api = createFakeApi({
+      sweden: { klarna_checkout: KLARNA, adyen_checkout: { id: 'adyen_checkout' } },
+      denmark: { klarna_checkout: KLARNA },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await detectDrift(projectDir, config);
+
+    expect(result.drifted).toBe(true);
+    expect(result.channels).toEqual([
+      {
+        channel: 'sweden',
+        configs: [{ name: 'adyen_checkout', status: 'unmanaged', fields: 0, remoteChanges: 0 }],
+      },
+    ]);
+    expect(result.unmanagedChannels).toEqual(['denmark']);
+    expect(formatDriftResult(result, false)).toContain('! denmark unmanaged channel (remote only)');
+  });
+
+  it('reports unmanaged configurations as deletions with prune', async () => {
+    api = createFakeApi({
+      sweden: { klarna_checkout: KLARNA, adyen_checkout: { id: 'adyen_checkout' } },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await detectDrift(projectDir, config, { prune: true });
+
+    expect(result.channels[0]?.configs.map((c) => c.status)).toEqual(['delete']);
+  });
+
+  it('ignores unmanaged configurations and channels when asked to', async () => {
+    api = createFakeApi({
+      sweden: { klarna_checkout: KLARNA, adyen_checkout: { id: 'adyen_checkout' } },
+      denmark: { klarna_checkout: KLARNA },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await detectDrift(projectDir, config, { ignoreUnmanaged: true });
+
+    expect(result.drifted).toBe(false);
+    expect(result.unmanagedChannels).toEqual([]);
+  });
+
+  it('only reports unmanaged channels selected by the channel patterns', async () => {
+    api = createFakeApi({
+      sweden: { klarna_checkout: KLARNA },
+      denmark: { klarna_checkout: KLARNA },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await detectDrift(projectDir, config, { channels: ['sweden'] });
+
+    expect(result.drifted).toBe(false);
+  });
+});
@@ -0,0 +1,228 @@
+import type { ProjectConfig } from '../types/index.js';
+import type { Plan } from '../plan/types.js';
+import { generatePlan } from '../plan/service.js';
+import { matchesAnyPattern } from '../config/patterns.js';
+
+/**
+ * Options for drift detection
+ */
+export interface DriftOptions {
+  /** Only check channels matching these names or glob patterns */
+  channels?: string[];
+  /** Report remote configurations without a local file as deletions */
+  prune?: boolean;
+  /** Do not count remote configurations and channels without a local file as drift */
+  ignoreUnmanaged?: boolean;
+  /** Channels checked at the same time (default: `api.concurrency` from the project config) */
+  concurrency?: number;
+}
+
+/**
+ * A configuration whose remote state differs from the repository
+ */
+export interface DriftedConfig {
+  /** Configuration name */
+  name: string;
+
+  /**
+   * What applying would do to bring the remote in line (`unmanaged`: nothing,
+   * the configuration only exists remotely)
+   */
+  status: 'create' | 'update' | 'delete' | 'unmanaged';
+
+  /** Number of differing fields */
+  fields: number;
+
+  /** Number of those fields changed remotely since the last apply */
+  remoteChanges: number;
+}
+
+/**
+ * A channel with drifted configurations
+ */
+export interface DriftedChannel {
+  /** Channel name */
+  channel: string;
+
+  /** Drifted configurations */
+  configs: DriftedConfig[];
+}
+
+/**
+ * Result of drift detection
+ */
+export interface DriftResult {
+  /** Merchant checked */
+  merchant: string;
+
+  /** Environment checked (when selected with --env) */
+  environment?: string;
+
+  /** Timestamp of the check (ISO 8601) */
+  timestamp: string;
+
+  /** Whether any configuration differs from the repository */
+  drifted: boolean;
+
+  /** Channels with drifted configurations */
+  channels: DriftedChannel[];
+
+  /** Remote channels without a local directory (empty with `ignoreUnmanaged`) */
+  unmanagedChannels: string[];
+
+  /** Summary counts */
+  summary: {
+    /** Configurations that differ */
+    configs: number;
+    /** Channels with at least one differing configuration */
+    channels: number;
+    /** Remote channels without a local directory */
+    unmanagedChannels: number;
+    /** Configurations checked */
+    checked: number;
+  };
+}
+
+/**
+ * Check whether the remote configurations still match the repository
+ *
+ * Generates the same plan as `ncoctl plan` and reduces it to the configurations
+ * that would be created, updated or deleted, and the remote configurations and
+ * channels that have no local file. Nothing is applied.
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration
+ * @param options - Drift options
+ * @returns Drift result
+ */
+export async function detectDrift(
+  projectDir: string,
+  config: ProjectConfig,
+  options: DriftOptions = {}
+): Promise<DriftResult> {
+  const plan = await generatePlan(projectDir, config, {
+    channels: options.channels,
+    prune: options.prune,
+    concurrency: options.concurrency,
+  });
+  return summarizeDrift(plan, {
+    channels: options.channels,
+    ignoreUnmanaged: options.ignoreUnmanaged,
+  });
+}
+
+/**
+ * Reduce a plan to the configurations that drifted
+ *
+ * @param plan - Plan to reduce
+ * @param options - Channel patterns the plan was limited to, and whether to
+ *   leave out unmanaged configurations and channels
+ * @returns Drift result
+ */
+export function summarizeDrift(
+  plan: Plan,
+  options: Pick<DriftOptions, 'channels' | 'ignoreUnmanaged'> = {}
+): DriftResult {
+  const channels: DriftedChannel[] = [];
+  let checked = 0;
+
+  for (const channelPlan of plan.channels) {
+    const configs: DriftedConfig[] = [];
+    for (const configPlan of channelPlan.configs) {
+      if (configPlan.status === 'unmanaged' && options.ignoreUnmanaged) continue;
+      checked++;
+      if (configPlan.status === 'unchanged') continue;
+
+      configs.push({
+        name: configPlan.name,
+        status: configPlan.status,
+        fields: configPlan.diffs.length,
+        remoteChanges: configPlan.diffs.filter(
+          (d) => d.origin === 'remote' || d.origin === 'conflict'
+        ).length,
+      });
+    }
+    if (configs.length > 0) {
+      channels.push({ channel: channelPlan.channel, configs });
+    }
+  }
+
+  // With --channel, only remote-only channels the patterns select were checked
+  const unmanagedChannels = options.ignoreUnmanaged
+    ? []
+    : plan.unmanagedChannels.filter(
+        (name) => !options.channels?.length || matchesAnyPattern(name, options.channels)
+      );
+  const configCount = channels.reduce((sum, ch) => sum + ch.configs.length, 0);
+  return {
+    merchant: plan.merchant,
+    environment: plan.environment,
+    timestamp: plan.timestamp,
+    drifted: configCount > 0 || unmanagedChannels.length > 0,
+    channels,
+    unmanagedChannels,
+    summary: {
+      configs: configCount,
+      channels: channels.length,
+      unmanagedChannels: unmanagedChannels.length,
+      checked,
+    },
+  };
+}
+
+/**
+ * Format drift result as text, one line per drifted configuration
+ */
+export function formatDriftResult(result: DriftResult, colors: boolean = true): string {
+  const c = colors
+    ? {
+        reset: '\x1b[0m',
+        green: '\x1b[32m',
+        red: '\x1b[31m',
+        yellow: '\x1b[33m',
+      }
+    : { reset: '', green: '', red: '', yellow: '' };
+
+  const symbols = {
+    create: `${c.green}+`,
+    update: `${c.yellow}~`,
+    delete: `${c.red}-`,
+    unmanaged: `${c.red}!`,
+  };
+  const target = result.environment
+    ? `${result.merchant} (environment: ${result.environment})`
+    : result.merchant;
+
+  const lines: string[] = [];
+  for (const channel of result.channels) {
+    for (const config of channel.configs) {
+      if (config.status === 'unmanaged') {
+        lines.push(
+          `${symbols.unmanaged} ${channel.channel}/${config.name}${c.reset} unmanaged (remote only)`
+        );
+        continue;
+      }
+      const remote = config.remoteChanges > 0 ? `, ${config.remoteChanges} changed remotely` : '';
+      lines.push(
+        `${symbols[config.status]} ${channel.channel}/${config.name}${c.reset} ${config.status} (${config.fields} field(s)${remote})`
+      );
+    }
+  }
+  for (const channel of result.unmanagedChannels) {
+    lines.push(`${symbols.unmanaged} ${channel}${c.reset} unmanaged channel (remote only)`);
+  }
+
+  if (!result.drifted) {
+    lines.push(`No drift: ${result.summary.checked} configuration(s) of ${target} match.`);
+  } else {
+    const channels =
+      result.summary.unmanagedChannels > 0
+        ? `, and ${result.summary.unmanagedChannels} channel(s) exist only remotely`
+        : '';
+    lines.push(
+      `Drift: ${result.summary.configs} of ${result.summary.checked} configuration(s) in ${result.summary.channels} channel(s) of ${target} differ${channels}.`
+    );
+  }
+
+  return lines.join('\n');
+}
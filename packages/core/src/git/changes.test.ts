@@ -0,0 +1,97 @@
+import { execFileSync } from 'node:child_process';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { findChangedChannels } from './changes.js';
+import { loadProjectConfig } from '../config/project.js';
+import {
+  DEFAULT_PROJECT_CONFIG,
+  createTestProject,
+  cleanupTestProject,
+  writeTestFiles,
+} from '../__tests__/helpers/project.js';
+
+const PROJECT_CONFIG = {
+  ...DEFAULT_PROJECT_CONFIG,
+  environments: {
+    prod: { api: DEFAULT_PROJECT_CONFIG.api, overlay: 'environments/prod' },
+  },
+};
+
+/**
+ * Commit everything in a test project as a new git repository
+ */
+function commitAll(dir: string): void {
+  const git = (...args: string[]): void => {
+    execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: dir,
+      stdio: 'ignore',
+    });
+  };
+  git('init', '--quiet');
+  git('add', '-A');
+  git('commit', '--quiet', '-m', 'initial');
+}
+
+describe('findChangedChannels', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject(
+      {
+        'sweden/norce_adapter.yaml': { id: 'norce_adapter', applicationId: 1001 },
+        'norway/norce_adapter.yaml': { id: 'norce_adapter', applicationId: 1002 },
+      },
+      PROJECT_CONFIG
+    );
+    commitAll(projectDir);
+  });
+
+  afterEach(async () => {
+    await cleanupTestProject(projectDir);
+  });
+
+  it('finds channels with changed files', async () => {
+    await writeTestFiles(projectDir, {
+      'sweden/norce_adapter.yaml': { id: 'norce_adapter', applicationId: 2001 },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    expect(await findChangedChannels(projectDir, config, 'HEAD')).toEqual(['sweden']);
+  });
+
+  it('treats a changed .env file as affecting every channel', async () => {
+    await writeTestFiles(projectDir, { '.env': 'TIMEOUT=30\n' });
+    const config = await loadProjectConfig(projectDir);
+
+    expect((await findChangedChannels(projectDir, config, 'HEAD')).sort()).toEqual([
+      'norway',
+      'sweden',
+    ]);
+  });
+
+  it("treats the selected environment's .env file as affecting every channel", async () => {
+    await writeTestFiles(projectDir, { '.env.prod': 'TIMEOUT=30\n' });
+
+    const stage = await loadProjectConfig(projectDir);
+    expect(await findChangedChannels(projectDir, stage, 'HEAD')).toEqual([]);
+
+    const prod = await loadProjectConfig(projectDir, { environment: 'prod' });
+    expect(await findChangedChannels(projectDir, prod, 'HEAD')).toHaveLength(2);
+  });
+
+  it('does not fail when the overlay directory does not exist', async () => {
+    await writeTestFiles(projectDir, {
+      'sweden/norce_adapter.yaml': { id: 'norce_adapter', applicationId: 2001 },
+    });
+    const config = await loadProjectConfig(projectDir, { environment: 'prod' });
+
+    expect(await findChangedChannels(projectDir, config, 'HEAD')).toEqual(['sweden']);
+  });
+
+  it('rejects a channel pattern that matches no channel', async () => {
+    const config = await loadProjectConfig(projectDir);
+
+    await expect(
+      findChangedChannels(projectDir, config, 'HEAD', { channels: ['finland'] })
+    ).rejects.toThrow("Channel 'finland' not found");
+  });
+});
@@ -0,0 +1,137 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { ProjectConfig, Channel, ChannelConfig } from '../types/index.js';
+import { discoverChannels, GROUPS_DIR } from '../config/discovery.js';
+import { getOverlayDirectories, CONFIG_FILENAME } from '../config/project.js';
+import { loadAllChannelConfigs } from '../config/loader.js';
+import { selectChannels } from '../config/patterns.js';
+import { listChangedFiles } from './client.js';
+
+/**
+ * Options for finding changed channels
+ */
+export interface ChangedChannelsOptions {
+  /** Only consider channels matching these names or glob patterns */
+  channels?: string[];
+}
+
+/**
+ * Find the local channels affected by changes since a git revision
+ *
+ * A channel is affected when a file in its directory changed, or a file it
+ * inherits from (root, variant, group or overlay file) changed, was added or
+ * was removed. A change to ncoctl.config.yaml, `.env` or the selected
+ * environment's `.env.<name>` affects every channel.
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration
+ * @param ref - Git ref to compare against (branch, tag or commit)
+ * @param options - Options
+ * @returns Names of affected channels, in discovery order
+ * @throws Error if a channel pattern matches no local channel
+ */
+export async function findChangedChannels(
+  projectDir: string,
+  config: ProjectConfig,
+  ref: string,
+  options: ChangedChannelsOptions = {}
+): Promise<string[]> {
+  const projectRoot = fs.realpathSync(projectDir);
+  const changedFiles = (await listChangedFiles(projectDir, ref))
+    .map((file) => path.relative(projectRoot, file))
+    .filter((file) => !file.startsWith('..') && !path.isAbsolute(file));
+
+  const channels = selectChannels(
+    await discoverChannels(projectDir, config.channels, getOverlayDirectories(config)),
+    options.channels
+  );
+
+  const projectWide = [CONFIG_FILENAME, '.env'];
+  if (config.environment) {
+    projectWide.push(`.env.${config.environment.name}`);
+  }
+  if (changedFiles.some((file) => projectWide.includes(file))) {
+    return channels.map((ch) => ch.name);
+  }
+
+  const loadedChannels = await loadAllChannelConfigs(channels, projectDir, {
+    configs: config.configs,
+    overlay: config.environment?.overlay,
+  });
+  const overlayPath = config.environment?.overlay;
+  // A missing overlay directory may still have had files removed
+  const overlay = overlayPath
+    ? fs.existsSync(overlayPath)
+      ? path.relative(projectRoot, fs.realpathSync(overlayPath))
+      : path.relative(path.resolve(projectDir), overlayPath)
+    : undefined;
+
+  return loadedChannels
+    .filter((channel) =>
+      changedFiles.some((file) => isAffectedBy(channel, file, projectRoot, overlay))
+    )
+    .map((ch) => ch.name);
+}
+
+/**
+ * Check if a changed file (relative to the project root) affects a channel
+ */
+function isAffectedBy(
+  channel: Channel,
+  file: string,
+  projectRoot: string,
+  overlay: string | undefined
+): boolean {
+  const segments = file.split(path.sep);
+
+  // Files in the channel directory, including _channel.yaml and removed files
+  if (segments[0] === channel.name) {
+    return true;
+  }
+
+  // Files the channel's configs are currently merged from
+  const absolutePath = path.join(projectRoot, file);
+  if (channel.configs.some((c) => c.layers.some((layer) => layer.path === absolutePath))) {
+    return true;
+  }
+
+  // Files that were added or removed: match them by config name
+  const configName = path.basename(file).replace(/\.ya?ml$/, '');
+  if (configName === path.basename(file)) {
+    return false;
+  }
+
+  // Root config or variant: <config>.yaml, <config>@<variant>.yaml
+  if (segments.length === 1) {
+    const [rootName, variant] = configName.split('@');
+    return channel.configs.some(
+      (c) => c.name === rootName && inherits(c) && (variant === undefined || c.variant === variant)
+    );
+  }
+
+  // Group config: _groups/<group>/<config>.yaml
+  if (segments.length === 3 && segments[0] === GROUPS_DIR) {
+    const group = segments[1]!;
+    return channel.configs.some(
+      (c) => c.name === configName && inherits(c) && (c.groups ?? []).includes(group)
+    );
+  }
+
+  // Overlay of the selected environment: <overlay>/<config>.yaml, <overlay>/<channel>/<config>.yaml
+  if (overlay && file.startsWith(overlay + path.sep)) {
+    const overlaySegments = path.relative(overlay, file).split(path.sep);
+    if (overlaySegments.length === 2 && overlaySegments[0] !== channel.name) {
+      return false;
+    }
+    return overlaySegments.length <= 2 && channel.configs.some((c) => c.name === configName);
+  }
+
+  return false;
+}
+
+/**
+ * Check if a channel config opts into inheritance (has an `id` or `$variant`)
+ */
+function inherits(config: ChannelConfig): boolean {
+  return config.inheritsFromRoot || config.raw['id'] !== undefined || config.variant !== undefined;
+}
@@ -0,0 +1,120 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Error thrown when a git command fails
+ */
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GitError';
+  }
+}
+
+/**
+ * Run a git command and return its trimmed output
+ */
+async function git(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+    return stdout.trim();
+  } catch (error) {
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    const message = stderr || (error instanceof Error ? error.message : String(error));
+    throw new GitError(`git ${args[0]} failed: ${message}`);
+  }
+}
+
+/**
+ * Get the root directory of the git repository containing a directory
+ *
+ * @throws GitError if the directory is not inside a git repository
+ */
+export async function getRepositoryRoot(dir: string): Promise<string> {
+  return fs.realpathSync(await git(dir, ['rev-parse', '--show-toplevel']));
+}
+
+/**
+ * Resolve a git ref (branch, tag or commit) to a commit hash
+ *
+ * @throws GitError if the ref does not exist
+ */
+export async function resolveRevision(dir: string, ref: string): Promise<string> {
+  try {
+    return await git(dir, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+  } catch {
+    throw new GitError(`Unknown git revision '${ref}'`);
+  }
+}
+
+/**
+ * Check out a git ref into a temporary worktree, run a callback with the
+ * project directory inside it, and remove the worktree afterwards
+ *
+ * @param projectDir - Project root directory (may be a subdirectory of the repository)
+ * @param ref - Git ref to check out
+ * @param callback - Called with the project directory at the ref
+ * @returns The callback's result
+ */
+export async function withWorktree<T>(
+  projectDir: string,
+  ref: string,
+  callback: (revisionProjectDir: string) => Promise<T>
+): Promise<T> {
+  const repoRoot = await getRepositoryRoot(projectDir);
+  const commit = await resolveRevision(repoRoot, ref);
+  const relativeDir = path.relative(repoRoot, fs.realpathSync(projectDir));
+
+  const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ncoctl-'));
+  const worktreeDir = path.join(tempDir, 'tree');
+
+  try {
+    await git(repoRoot, ['worktree', 'add', '--detach', worktreeDir, commit]);
+    return await callback(path.join(worktreeDir, relativeDir));
+  } finally {
+    await git(repoRoot, ['worktree', 'remove', '--force', worktreeDir]).catch(() =>
+      git(repoRoot, ['worktree', 'prune'])
+    );
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * List files that differ between a git ref and the working tree
+ *
+ * Includes committed, staged and unstaged changes, deleted files (renames count
+ * as a deletion and an addition) and untracked files that are not ignored.
+ *
+ * @param dir - Directory inside the repository
+ * @param ref - Git ref to compare against
+ * @returns Absolute paths of changed files
+ */
+export async function listChangedFiles(dir: string, ref: string): Promise<string[]> {
+  const repoRoot = await getRepositoryRoot(dir);
+  const commit = await resolveRevision(repoRoot, ref);
+
+  const changed = await git(repoRoot, ['diff', '--name-only', '--no-renames', '-z', commit]);
+  const untracked = await git(repoRoot, ['ls-files', '--others', '--exclude-standard', '-z']);
+
+  return [...changed.split('\0'), ...untracked.split('\0')]
+    .filter((file) => file !== '')
+    .map((file) => path.join(repoRoot, file));
+}
+
+/**
+ * Get the commit checked out in the repository containing a directory
+ *
+ * @param dir - Directory inside the repository
+ * @returns Commit hash and whether the working tree has uncommitted changes
+ * @throws GitError if the directory is not inside a git repository
+ */
+export async function getHeadState(dir: string): Promise<{ commit: string; dirty: boolean }> {
+  const commit = await git(dir, ['rev-parse', 'HEAD']);
+  const status = await git(dir, ['status', '--porcelain']);
+  return { commit, dirty: status !== '' };
+}
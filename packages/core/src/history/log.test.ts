@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { recordApplyRun, readHistory } from './log.js';
+import { loadProjectConfig } from '../config/project.js';
+import type { Plan } from '../plan/types.js';
+import type { ApplyResult } from '../types/index.js';
+import { createTestProject, cleanupTestProject } from '../__tests__/helpers/project.js';
+
+function createPlan(extra: Partial<Plan> = {}): Plan {
+  return {
+    merchant: 'test-merchant',
+    timestamp: new Date().toISOString(),
+    channels: [
+      {
+        channel: 'sweden',
+        existsRemotely: true,
+        configs: [
+          {
+            name: 'klarna_checkout',
+            status: 'update',
+            diffs: [
+              { path: '/username', type: 'change', oldValue: 'old-user', newValue: 'new-user' },
+              { path: '/apiKey', type: 'remove', oldValue: 'remote-key' },
+              { path: '/timeout', type: 'change', oldValue: 10, newValue: 30 },
+            ],
+          },
+        ],
+      },
+    ],
+    unmanagedChannels: [],
+    summary: {
+      creates: 0,
+      updates: 1,
+      deletes: 0,
+      unchanged: 0,
+      unmanaged: 0,
+      unmanagedChannels: 0,
+    },
+    ...extra,
+  };
+}
+
+const RESULT: ApplyResult = {
+  success: true,
+  runId: 'run-1',
+  results: [{ channel: 'sweden', config: 'klarna_checkout', success: true }],
+  summary: { succeeded: 1, failed: 0, conflicts: 0, rolledBack: 0, skipped: 0 },
+};
+
+describe('recordApplyRun', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject({
+      'sweden/klarna_checkout.yaml': {
+        id: 'klarna_checkout',
+        username: '${KLARNA_USER}',
+        timeout: 30,
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestProject(projectDir);
+  });
+
+  it('masks secrets of an apply, showing local placeholders', async () => {
+    const config = await loadProjectConfig(projectDir);
+
+    await recordApplyRun(projectDir, config, createPlan(), RESULT);
+
+    const [entry] = await readHistory(projectDir);
+    expect(entry?.results[0]?.diffs).toEqual([
+      { path: '/username', type: 'change', oldValue: '********', newValue: '${KLARNA_USER}' },
+      { path: '/apiKey', type: 'remove', oldValue: '********' },
+      { path: '/timeout', type: 'change', oldValue: 10, newValue: 30 },
+    ]);
+  });
+
+  it('masks both values of secret fields in a promotion', async () => {
+    const config = await loadProjectConfig(projectDir);
+
+    await recordApplyRun(projectDir, config, createPlan({ promotedFrom: 'stage' }), RESULT);
+
+    const [entry] = await readHistory(projectDir);
+    expect(entry?.promotedFrom).toBe('stage');
+    expect(entry?.results[0]?.diffs).toEqual([
+      { path: '/username', type: 'change', oldValue: '********', newValue: '********' },
+      { path: '/apiKey', type: 'remove', oldValue: '********' },
+      { path: '/timeout', type: 'change', oldValue: 10, newValue: 30 },
+    ]);
+  });
+});
@@ -0,0 +1,290 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type {
+  ProjectConfig,
+  ApplyResult,
+  ApplySummary,
+  ConfigApplyResult,
+} from '../types/index.js';
+import type { Plan, FieldDiff } from '../plan/types.js';
+import { getConfigsToApply } from '../plan/service.js';
+import { loadTemplates, maskConfigPlan } from '../plan/mask.js';
+import { getHeadState } from '../git/client.js';
+import { matchesAnyPattern } from '../config/patterns.js';
+import { formatFieldDiff } from '../diff/formatter.js';
+
+/**
+ * File (relative to the project root) that apply runs are appended to
+ */
+export const HISTORY_FILE = '.ncoctl/history.jsonl';
+
+/**
+ * Result of applying a single configuration, as recorded in the history
+ */
+export interface HistoryResult extends ConfigApplyResult {
+  /** What was applied */
+  status: 'create' | 'update' | 'delete';
+
+  /** Applied field differences, with secret values masked */
+  diffs: FieldDiff[];
+}
+
+/**
+ * A recorded apply run
+ */
+export interface HistoryEntry {
+  /** When the run finished (ISO 8601) */
+  timestamp: string;
+
+  /** Id of the run's backup (when anything was changed) */
+  runId?: string;
+
+  /** OS user who ran the apply */
+  user: string;
+
+  /** Commit checked out when applying (when the project is in a git repository) */
+  git?: {
+    commit: string;
+    dirty: boolean;
+  };
+
+  /** Merchant applied to */
+  merchant: string;
+
+  /** Environment applied to (when selected with --env) */
+  environment?: string;
+
+  /** Environment the applied state was promoted from (promote only) */
+  promotedFrom?: string;
+
+  /** Run id of the apply that was undone (rollback only) */
+  rollbackOf?: string;
+
+  /** Overall success */
+  success: boolean;
+
+  /** Summary */
+  summary: ApplySummary;
+
+  /** Per-configuration results */
+  results: HistoryResult[];
+}
+
+/**
+ * Filter for reading the history
+ */
+export interface HistoryFilter {
+  /** Only results for channels matching these names or glob patterns */
+  channels?: string[];
+  /** Only results for configurations matching these names or glob patterns */
+  configs?: string[];
+  /** Only runs at or after this time */
+  since?: Date;
+  /** Only runs before this time */
+  until?: Date;
+  /** Maximum number of runs */
+  limit?: number;
+}
+
+/**
+ * Append an apply run to the history
+ *
+ * Diff values of fields that hold secrets are masked, the same way as in
+ * saved plans. Promotions and rollbacks write values that did not come from
+ * the local configurations, so their new values are never shown as
+ * placeholders; the local placeholders still mark which fields to mask.
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration the run applied with
+ * @param plan - Plan the run applied
+ * @param result - Result of the run
+ */
+export async function recordApplyRun(
+  projectDir: string,
+  config: ProjectConfig,
+  plan: Plan,
+  result: ApplyResult
+): Promise<void> {
+  const templates = await loadTemplates(
+    projectDir,
+    config,
+    plan.channels.map((ch) => ch.channel)
+  );
+
+  const fromTemplates = !plan.promotedFrom && !plan.rollbackOf;
+  const statuses = new Map(
+    getConfigsToApply(plan).map((c) => [`${c.channel}/${c.configName}`, c.status])
+  );
+
+  const results: HistoryResult[] = result.results.map((r) => {
+    const key = `${r.channel}/${r.config}`;
+    const configPlan = plan.channels
+      .find((ch) => ch.channel === r.channel)
+      ?.configs.find((c) => c.name === r.config);
+    const template = templates.get(key);
+    return {
+      ...r,
+      status: statuses.get(key) ?? 'update',
+      diffs: configPlan
+        ? maskConfigPlan(configPlan, fromTemplates ? template : undefined, [template]).diffs
+        : [],
+    };
+  });
+
+  const entry: HistoryEntry = {
+    timestamp: new Date().toISOString(),
+    runId: result.runId,
+    user: getUserName(),
+    git: await getHeadState(projectDir).catch(() => undefined),
+    merchant: config.merchant,
+    environment: config.environment?.name,
+    promotedFrom: plan.promotedFrom,
+    rollbackOf: plan.rollbackOf,
+    success: result.success,
+    summary: result.summary,
+    results,
+  };
+
+  const filePath = path.join(projectDir, HISTORY_FILE);
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.promises.appendFile(filePath, JSON.stringify(entry) + '\n', 'utf-8');
+}
+
+/**
+ * Read recorded apply runs, newest first
+ *
+ * Channel and config filters narrow the results of each run; runs without
+ * matching results are left out.
+ *
+ * @param projectDir - Project root directory
+ * @param filter - Filter
+ * @returns Matching runs
+ */
+export async function readHistory(
+  projectDir: string,
+  filter: HistoryFilter = {}
+): Promise<HistoryEntry[]> {
+  let content: string;
+  try {
+    content = await fs.promises.readFile(path.join(projectDir, HISTORY_FILE), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of content.split('\n').reverse()) {
+    if (line.trim() === '') continue;
+
+    let entry: HistoryEntry;
+    try {
+      entry = JSON.parse(line) as HistoryEntry;
+    } catch {
+      // Skip lines cut short by an interrupted write
+      continue;
+    }
+
+    const timestamp = new Date(entry.timestamp);
+    if (filter.since && timestamp < filter.since) continue;
+    if (filter.until && timestamp >= filter.until) continue;
+
+    if (filter.channels?.length || filter.configs?.length) {
+      const results = entry.results.filter(
+        (r) =>
+          (!filter.channels?.length || matchesAnyPattern(r.channel, filter.channels)) &&
+          (!filter.configs?.length || matchesAnyPattern(r.config, filter.configs))
+      );
+      if (results.length === 0) continue;
+      entry = { ...entry, results };
+    }
+
+    entries.push(entry);
+    if (filter.limit !== undefined && entries.length >= filter.limit) break;
+  }
+
+  return entries;
+}
+
+/**
+ * Format recorded apply runs as text
+ *
+ * @param entries - Runs from `readHistory`
+ * @param options - Use colors; show the applied field differences
+ */
+export function formatHistory(
+  entries: HistoryEntry[],
+  options: { colors?: boolean; verbose?: boolean } = {}
+): string {
+  const colors = options.colors ?? true;
+  const c = colors
+    ? {
+        reset: '\x1b[0m',
+        green: '\x1b[32m',
+        red: '\x1b[31m',
+        yellow: '\x1b[33m',
+        dim: '\x1b[2m',
+        bold: '\x1b[1m',
+      }
+    : { reset: '', green: '', red: '', yellow: '', dim: '', bold: '' };
+
+  if (entries.length === 0) {
+    return 'No apply runs recorded.';
+  }
+
+  const lines: string[] = [];
+  for (const entry of entries) {
+    const context = [
+      entry.environment ? `environment: ${entry.environment}` : '',
+      entry.promotedFrom ? `promoted from ${entry.promotedFrom}` : '',
+      entry.rollbackOf ? `rollback of ${entry.rollbackOf}` : '',
+    ].filter((part) => part !== '');
+    const target = context.length > 0 ? ` (${context.join(', ')})` : '';
+    const commit = entry.git
+      ? ` ${c.dim}at ${entry.git.commit.slice(0, 7)}${entry.git.dirty ? ' (dirty)' : ''}${c.reset}`
+      : '';
+
+    lines.push(
+      `${c.bold}${entry.timestamp}${c.reset} ${entry.user} → ${entry.merchant}${target}${commit}`
+    );
+    if (entry.runId) {
+      lines.push(`  ${c.dim}run ${entry.runId}${c.reset}`);
+    }
+
+    for (const r of entry.results) {
+      if (r.rolledBack) {
+        lines.push(`  ${c.yellow}↺${c.reset} ${r.channel}/${r.config} (${r.status}): rolled back`);
+      } else if (r.rollbackError) {
+        lines.push(
+          `  ${c.red}✗${c.reset} ${r.channel}/${r.config} (${r.status}): rollback failed: ${r.rollbackError}`
+        );
+      } else if (r.success) {
+        lines.push(`  ${c.green}✓${c.reset} ${r.channel}/${r.config} (${r.status})`);
+      } else if (r.conflict) {
+        lines.push(`  ${c.yellow}!${c.reset} ${r.channel}/${r.config} (${r.status}): ${r.error}`);
+      } else {
+        lines.push(`  ${c.red}✗${c.reset} ${r.channel}/${r.config} (${r.status}): ${r.error}`);
+      }
+
+      if (options.verbose) {
+        for (const diff of r.diffs) {
+          const formatted = formatFieldDiff(diff, { colors });
+          lines.push(...formatted.split('\n').map((line) => `      ${line}`));
+        }
+      }
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd();
+}
+
+/**
+ * Get the name of the OS user running the command
+ */
+function getUserName(): string {
+  try {
+    return os.userInfo().username;
+  } catch {
+    return process.env['USER'] ?? process.env['USERNAME'] ?? 'unknown';
+  }
+}
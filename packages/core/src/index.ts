@@ -10,6 +10,10 @@ export type {
   ApplyResult,
   ConfigApplyResult,
   ApplySummary,
+  NamePatterns,
+  ConfigLayer,
+  EnvironmentConfig,
+  ResolvedEnvironment,
 } from './types/index.js';
 
 export type {
@@ -24,27 +28,59 @@ export type {
 export {
   loadProjectConfig,
   findProjectRoot,
+  getOverlayDirectories,
   ProjectConfigError,
+  type ProjectConfigOptions,
 } from './config/project.js';
 
 export {
   discoverChannels,
   findRootConfigs,
+  findRootVariants,
+  findGroupConfigs,
+  GROUPS_DIR,
 } from './config/discovery.js';
 
 export {
   loadYamlFile,
   loadChannelConfigs,
   loadAllChannelConfigs,
+  loadChannelGroups,
+  CHANNEL_FILE,
   YamlLoadError,
+  type LoadOptions,
 } from './config/loader.js';
 
+export { serializeConfig, writeYamlFile } from './config/writer.js';
+
+export {
+  DEFAULT_CONFIG_EXCLUDES,
+  matchesPattern,
+  matchesAnyPattern,
+  isIncluded,
+  isChannelIncluded,
+  selectChannels,
+} from './config/patterns.js';
+
 // Merge
 export { deepMerge } from './merge/deep-merge.js';
-export { shouldInherit, schemasCompatible, mergeConfigs } from './merge/hierarchy.js';
+export {
+  shouldInherit,
+  schemasCompatible,
+  mergeConfigs,
+  mergeLayers,
+  findValueSource,
+  describeLayer,
+} from './merge/hierarchy.js';
 
 // Secrets
-export { loadEnvFile, parseEnvContent, getEnvironment } from './secrets/env.js';
+export {
+  loadEnvFile,
+  parseEnvContent,
+  getEnvironment,
+  resolveApiToken,
+  DEFAULT_TOKEN_ENV,
+} from './secrets/env.js';
 
 // Schema
 export { fetchSchema, SchemaFetchError } from './schema/fetcher.js';
@@ -71,24 +107,116 @@ export {
   generatePlan,
   planHasChanges,
   getConfigsToApply,
+  calculateSummary,
   PlanValidationError,
   type PlanOptions,
 } from './plan/service.js';
+export { generateRevisionPlan, type RevisionPlanOptions } from './plan/revision.js';
+export {
+  createSavedPlan,
+  writeSavedPlan,
+  readSavedPlan,
+  SavedPlanError,
+  type SavedPlan,
+} from './plan/saved.js';
+export { fingerprintRemoteState, fetchRemoteState, type RemoteState } from './plan/fingerprint.js';
+
+// Drift
+export {
+  detectDrift,
+  summarizeDrift,
+  formatDriftResult,
+  type DriftOptions,
+  type DriftResult,
+  type DriftedChannel,
+  type DriftedConfig,
+} from './drift/service.js';
+
+// Backup and rollback
+export {
+  createBackup,
+  backupConfig,
+  recordBackupEntry,
+  listBackups,
+  readBackup,
+  readBackupPayload,
+  BackupError,
+  BACKUPS_DIR,
+  type BackupManifest,
+  type BackupEntry,
+} from './backup/store.js';
+export { planRollback, type RollbackResult } from './rollback/service.js';
+
+// History
+export {
+  recordApplyRun,
+  readHistory,
+  formatHistory,
+  HISTORY_FILE,
+  type HistoryEntry,
+  type HistoryResult,
+  type HistoryFilter,
+} from './history/log.js';
+
+// State
+export {
+  readChannelState,
+  matchesAppliedValue,
+  writeAppliedState,
+  removeAppliedState,
+  getStateDirectory,
+  STATE_DIR,
+  type AppliedState,
+} from './state/store.js';
 
 // API Client
 export { ConfigurationApiClient, ApiError } from './api/client.js';
 export type { ApiClientOptions, RemoteChannel, RemoteConfig } from './api/types.js';
+export { mapConcurrent, resolveConcurrency, DEFAULT_CONCURRENCY } from './api/concurrency.js';
+
+// Git
+export { GitError } from './git/client.js';
+export { findChangedChannels, type ChangedChannelsOptions } from './git/changes.js';
 
 // Secrets
 export { substituteSecrets, checkMissingEnvVars, MissingEnvVarError } from './secrets/substitute.js';
 
+// Promote
+export { promoteEnvironment, type PromoteOptions, type PromoteResult } from './promote/service.js';
+
 // Apply
 export {
   applyConfigs,
+  applySavedPlan,
   formatApplyResult,
   type ApplyOptions,
 } from './apply/service.js';
 
+// Pull
+export {
+  pullConfigs,
+  type PullOptions,
+  type PullResult,
+  type PulledChannel,
+} from './pull/service.js';
+
+// Delete
+export {
+  planDelete,
+  deleteRemote,
+  type DeleteTarget,
+  type DeleteResult,
+} from './delete/service.js';
+
+// Optimize
+export {
+  optimizeProject,
+  formatOptimizeResult,
+  type OptimizeOptions,
+  type OptimizeResult,
+  type ConfigOptimization,
+} from './optimize/service.js';
+
 // Init
 export {
   initProject,
@@ -106,11 +234,23 @@ export {
 // Compare
 export {
   compareChannels,
+  compareSides,
+  parseCompareSide,
+  compareHasDifferences,
   formatCompareResult,
   type CompareOptions,
+  type CompareSide,
 } from './compare/service.js';
+export {
+  compareMatrix,
+  matrixHasDifferences,
+  formatMatrixResult,
+  formatMatrixCsv,
+} from './compare/matrix.js';
 export type {
   CompareResult,
   ConfigComparison,
   CompareSummary,
+  MatrixResult,
+  MatrixRow,
 } from './compare/types.js';
@@ -18,6 +18,8 @@ api:
   baseUrl: https://checkout-configuration.example.com
   # Bearer token (can use NCO_API_TOKEN env var)
   # token: "\${NCO_API_TOKEN}"
+  # Channels/configs planned and applied at a time (default: 1)
+  # concurrency: 4
 
 # Optional: Schema validation settings
 schema:
@@ -28,6 +30,32 @@ schema:
   # Skip schema validation (default: false)
   # skip: false
 
+# Optional: Configuration name filters (glob patterns, * and ?)
+# Excluded configurations are not loaded, pulled, planned or pruned.
+# Include patterns take precedence over exclude patterns.
+configs:
+  # Auto-generated by admin/checkout (default exclude list)
+  exclude:
+    - admin_meta
+    - checkout_application
+    - checkout_layout_*
+    - checkout_meta_*
+  # include:
+  #   - checkout_layout_custom
+
+# Optional: Named environments, selected with --env
+# environments:
+#   stage:
+#     api:
+#       baseUrl: https://checkout-configuration.stage.example.com
+#   prod:
+#     api:
+#       baseUrl: https://checkout-configuration.example.com
+#     # Token variable (default: NCO_API_TOKEN), also read from .env.prod
+#     tokenEnv: NCO_API_TOKEN_PROD
+#     # Files merged on top of channel configs in this environment
+#     overlay: overlays/prod
+
 # Optional: Output settings
 output:
   # Default output format: "text" or "json" (default: text)
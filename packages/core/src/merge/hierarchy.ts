@@ -1,3 +1,4 @@
+import type { ConfigLayer } from '../types/index.js';
 import { deepMerge } from './deep-merge.js';
 
 /**
@@ -55,3 +56,77 @@ export function mergeConfigs(
 ): Record<string, unknown> {
   return deepMerge(rootConfig, channelConfig);
 }
+
+/**
+ * Merge configuration layers in order (later layers take precedence)
+ *
+ * @param layers - Layers from lowest to highest precedence
+ * @returns Merged configuration
+ */
+export function mergeLayers(layers: ConfigLayer[]): Record<string, unknown> {
+  const [first, ...rest] = layers;
+  if (!first) {
+    return {};
+  }
+
+  return rest.reduce((merged, layer) => mergeConfigs(merged, layer.content), first.content);
+}
+
+/**
+ * Find the layer that supplies the value at a JSON path of the merged config
+ *
+ * Walks the layers from highest to lowest precedence. A layer supplies the value
+ * if it sets the path (or removes it with null), or replaces a parent of the
+ * path with an array or primitive value.
+ *
+ * @param layers - Layers from lowest to highest precedence
+ * @param jsonPath - JSON path (e.g., "/api/timeout")
+ * @returns The supplying layer, or undefined if no layer sets the path
+ */
+export function findValueSource(layers: ConfigLayer[], jsonPath: string): ConfigLayer | undefined {
+  const segments = jsonPath.split('/').slice(1);
+
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const layer = layers[i]!;
+    let current: unknown = layer.content;
+    let found = true;
+
+    for (const segment of segments) {
+      if (typeof current !== 'object' || current === null || Array.isArray(current)) {
+        break;
+      }
+      if (!(segment in current)) {
+        found = false;
+        break;
+      }
+      current = (current as Record<string, unknown>)[segment];
+      if (current === null) {
+        break;
+      }
+    }
+
+    if (found) {
+      return layer;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Describe a layer for output (e.g., "root", "variant @forms", "group klarna", "overlay prod")
+ */
+export function describeLayer(layer: ConfigLayer): string {
+  switch (layer.source) {
+    case 'root':
+      return 'root';
+    case 'variant':
+      return `variant @${layer.name}`;
+    case 'group':
+      return `group ${layer.name}`;
+    case 'channel':
+      return 'channel';
+    case 'overlay':
+      return `overlay ${layer.name}`;
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { optimizeProject } from './service.js';
+import { loadProjectConfig } from '../config/project.js';
+import {
+  createTestProject,
+  cleanupTestProject,
+  readTestYaml,
+  DEFAULT_PROJECT_CONFIG,
+} from '../__tests__/helpers/project.js';
+
+describe('optimizeProject', () => {
+  let projectDir: string;
+
+  afterEach(async () => {
+    await cleanupTestProject(projectDir);
+  });
+
+  describe('with two channels sharing fields', () => {
+    beforeEach(async () => {
+      projectDir = await createTestProject({
+        'sweden/norce_adapter.yaml': { id: 'norce_adapter', timeout: 30, market: 'se' },
+        'norway/norce_adapter.yaml': { id: 'norce_adapter', timeout: 30, market: 'no' },
+      });
+    });
+
+    it('hoists shared fields into the root config', async () => {
+      const config = await loadProjectConfig(projectDir);
+
+      const result = await optimizeProject(projectDir, config);
+
+      expect(result.configs).toEqual([
+        {
+          name: 'norce_adapter',
+          status: 'optimized',
+          channels: expect.arrayContaining(['sweden', 'norway']) as unknown,
+          hoistedFields: 2,
+        },
+      ]);
+      expect(await readTestYaml(projectDir, 'norce_adapter.yaml')).toEqual({
+        id: 'norce_adapter',
+        timeout: 30,
+      });
+      expect(await readTestYaml(projectDir, 'sweden/norce_adapter.yaml')).toEqual({
+        id: 'norce_adapter',
+        market: 'se',
+      });
+    });
+
+    it('does not write files in dry-run mode', async () => {
+      const config = await loadProjectConfig(projectDir);
+
+      const result = await optimizeProject(projectDir, config, { dryRun: true });
+
+      expect(result.filesWritten).toHaveLength(3);
+      expect(await readTestYaml(projectDir, 'sweden/norce_adapter.yaml')).toEqual({
+        id: 'norce_adapter',
+        timeout: 30,
+        market: 'se',
+      });
+    });
+
+    it('rejects thresholds of one half or less', async () => {
+      const config = await loadProjectConfig(projectDir);
+
+      await expect(optimizeProject(projectDir, config, { threshold: 0.5 })).rejects.toThrow(
+        'Threshold'
+      );
+    });
+  });
+
+  it('hoists values shared by enough channels with a threshold', async () => {
+    projectDir = await createTestProject({
+      'a/norce_adapter.yaml': { id: 'norce_adapter', timeout: 30 },
+      'b/norce_adapter.yaml': { id: 'norce_adapter', timeout: 30 },
+      'c/norce_adapter.yaml': { id: 'norce_adapter', timeout: 60 },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    await optimizeProject(projectDir, config, { threshold: 0.6 });
+
+    expect(await readTestYaml(projectDir, 'norce_adapter.yaml')).toEqual({
+      id: 'norce_adapter',
+      timeout: 30,
+    });
+    expect(await readTestYaml(projectDir, 'c/norce_adapter.yaml')).toEqual({
+      id: 'norce_adapter',
+      timeout: 60,
+    });
+  });
+
+  it('removes hoisted fields a channel does not have with null', async () => {
+    projectDir = await createTestProject({
+      'a/norce_adapter.yaml': { id: 'norce_adapter', timeout: 30 },
+      'b/norce_adapter.yaml': { id: 'norce_adapter', timeout: 30 },
+      'c/norce_adapter.yaml': { id: 'norce_adapter' },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    await optimizeProject(projectDir, config, { threshold: 0.6 });
+
+    expect(await readTestYaml(projectDir, 'c/norce_adapter.yaml')).toEqual({
+      id: 'norce_adapter',
+      timeout: null,
+    });
+  });
+
+  it('skips a configuration when an excluded channel would inherit different values', async () => {
+    projectDir = await createTestProject(
+      {
+        'sweden/norce_adapter.yaml': { id: 'norce_adapter', timeout: 30 },
+        'norway/norce_adapter.yaml': { id: 'norce_adapter', timeout: 30 },
+        'demo/norce_adapter.yaml': { id: 'norce_adapter' },
+      },
+      { ...DEFAULT_PROJECT_CONFIG, channels: { exclude: ['demo'] } }
+    );
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await optimizeProject(projectDir, config);
+
+    expect(result.configs[0]).toMatchObject({
+      status: 'skipped',
+      reason: "result would not be lossless for channel 'demo' (excluded)",
+    });
+    expect(result.filesWritten).toEqual([]);
+  });
+
+  it('leaves excluded channels that are not affected untouched', async () => {
+    projectDir = await createTestProject(
+      {
+        'sweden/norce_adapter.yaml': { id: 'norce_adapter', timeout: 30 },
+        'norway/norce_adapter.yaml': { id: 'norce_adapter', timeout: 30 },
+        'demo/norce_adapter.yaml': { timeout: 10 },
+      },
+      { ...DEFAULT_PROJECT_CONFIG, channels: { exclude: ['demo'] } }
+    );
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await optimizeProject(projectDir, config);
+
+    expect(result.configs[0]?.status).toBe('optimized');
+    expect(result.configs[0]?.channels).not.toContain('demo');
+    expect(await readTestYaml(projectDir, 'demo/norce_adapter.yaml')).toEqual({ timeout: 10 });
+  });
+});
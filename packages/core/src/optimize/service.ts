@@ -0,0 +1,517 @@
+import * as path from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
+import type { ProjectConfig, Channel, ChannelConfig, ConfigLayer } from '../types/index.js';
+import { discoverChannels, findRootConfigs } from '../config/discovery.js';
+import { getOverlayDirectories } from '../config/project.js';
+import { loadAllChannelConfigs, loadYamlFile } from '../config/loader.js';
+import { writeYamlFile } from '../config/writer.js';
+import { mergeLayers, schemasCompatible, shouldInherit } from '../merge/hierarchy.js';
+
+/**
+ * Default share of channels that must agree on a value before it is hoisted
+ */
+const DEFAULT_THRESHOLD = 1;
+
+/**
+ * Options for optimize operation
+ */
+export interface OptimizeOptions {
+  /** Only optimize specific configuration name */
+  config?: string;
+  /**
+   * Share of channels (greater than 0.5, at most 1) that must have the same value
+   * for a field to be hoisted into the root config (default: 1 = all channels)
+   */
+  threshold?: number;
+  /** Compute the result without writing files */
+  dryRun?: boolean;
+}
+
+/**
+ * Result of optimizing a single configuration name
+ */
+export interface ConfigOptimization {
+  /** Configuration name */
+  name: string;
+
+  /** Whether the configuration was optimized or left untouched */
+  status: 'optimized' | 'skipped';
+
+  /** Why the configuration was skipped */
+  reason?: string;
+
+  /** Channels that inherit from the root config after optimization */
+  channels: string[];
+
+  /** Number of leaf fields in the root config */
+  hoistedFields: number;
+}
+
+/**
+ * Result of optimize operation
+ */
+export interface OptimizeResult {
+  /** Per-configuration results */
+  configs: ConfigOptimization[];
+
+  /** Files written, or that would be written in dry-run mode (relative to project root) */
+  filesWritten: string[];
+}
+
+/**
+ * A configuration file in a specific channel
+ */
+interface ChannelEntry {
+  channel: string;
+  config: ChannelConfig;
+  /** Excluded by the channel patterns: never rewritten, but still inherits the root */
+  excluded: boolean;
+  /** The same file loaded with each environment overlay */
+  overlaid: ChannelConfig[];
+}
+
+/**
+ * A file to write after optimization
+ */
+interface PendingWrite {
+  filePath: string;
+  content: Record<string, unknown>;
+}
+
+/**
+ * Hoist fields shared by channel configs into root configs
+ *
+ * For each configuration name, the channels whose files share the most common
+ * `$schema` are grouped. Fields with the same value in enough of those channels are
+ * written to the root `<config>.yaml`, and each channel file is reduced to `id` plus
+ * its remaining overrides (using `null` to remove hoisted fields it does not have).
+ *
+ * The result is verified by re-merging every channel file that can inherit the
+ * root config, including channels excluded by the channel patterns (which are
+ * never rewritten) and with each environment's overlay; a configuration is
+ * skipped unless every merged output is unchanged.
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration
+ * @param options - Optimize options
+ * @returns Optimize result with per-config status
+ */
+export async function optimizeProject(
+  projectDir: string,
+  config: ProjectConfig,
+  options: OptimizeOptions = {}
+): Promise<OptimizeResult> {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  if (!(threshold > 0.5 && threshold <= 1)) {
+    throw new Error('Threshold must be greater than 0.5 and at most 1');
+  }
+
+  // Discover and load channels. Excluded channels inherit root configs as well,
+  // so they are loaded for verification.
+  const overlayDirs = getOverlayDirectories(config);
+  const channels = await discoverChannels(projectDir, undefined, overlayDirs);
+  const included = new Set(
+    (await discoverChannels(projectDir, config.channels, overlayDirs)).map((ch) => ch.name)
+  );
+  const loadedChannels = await loadAllChannelConfigs(channels, projectDir, {
+    configs: config.configs,
+  });
+  const overlaidChannels: Channel[][] = [];
+  for (const overlay of getOverlayPaths(projectDir, config)) {
+    overlaidChannels.push(
+      await loadAllChannelConfigs(channels, projectDir, { configs: config.configs, overlay })
+    );
+  }
+  const rootConfigs = await findRootConfigs(projectDir);
+
+  // Group channel files by configuration name
+  const entriesByName = new Map<string, ChannelEntry[]>();
+  for (const channel of loadedChannels) {
+    for (const channelConfig of channel.configs) {
+      const entries = entriesByName.get(channelConfig.name) ?? [];
+      entries.push({
+        channel: channel.name,
+        config: channelConfig,
+        excluded: !included.has(channel.name),
+        overlaid: overlaidChannels.flatMap(
+          (loaded) =>
+            loaded
+              .find((ch) => ch.name === channel.name)
+              ?.configs.filter((c) => c.name === channelConfig.name) ?? []
+        ),
+      });
+      entriesByName.set(channelConfig.name, entries);
+    }
+  }
+
+  if (options.config && !entriesByName.get(options.config)?.some((entry) => !entry.excluded)) {
+    throw new Error(`Configuration '${options.config}' not found in any channel`);
+  }
+
+  const configs: ConfigOptimization[] = [];
+  const writes: PendingWrite[] = [];
+
+  const names = [...entriesByName.keys()].sort((a, b) => a.localeCompare(b));
+  for (const name of names) {
+    if (options.config && name !== options.config) {
+      continue;
+    }
+
+    const entries = entriesByName.get(name) ?? [];
+    if (entries.every((entry) => entry.excluded)) {
+      continue;
+    }
+    const existingRootPath = rootConfigs.get(name);
+    const existingRoot = existingRootPath ? await loadYamlFile(existingRootPath) : undefined;
+    const rootPath = existingRootPath ?? path.join(projectDir, `${name}.yaml`);
+    const outcome = optimizeConfig(name, entries, rootPath, existingRoot, threshold);
+
+    configs.push(outcome.result);
+    writes.push(...outcome.writes);
+  }
+
+  // Write files
+  if (!options.dryRun) {
+    for (const write of writes) {
+      await writeYamlFile(write.filePath, write.content);
+    }
+  }
+
+  return {
+    configs,
+    filesWritten: writes.map((write) => path.relative(projectDir, write.filePath)),
+  };
+}
+
+/**
+ * Optimize a single configuration name across its channels
+ */
+function optimizeConfig(
+  name: string,
+  entries: ChannelEntry[],
+  rootPath: string,
+  existingRoot: Record<string, unknown> | undefined,
+  threshold: number
+): { result: ConfigOptimization; writes: PendingWrite[] } {
+  const skip = (reason: string) => ({
+    result: { name, status: 'skipped' as const, reason, channels: [], hoistedFields: 0 },
+    writes: [],
+  });
+
+  // Root changes would also reach channels through their variants and groups
+  if (
+    entries.some((entry) =>
+      entry.config.layers.some((layer) => layer.source === 'variant' || layer.source === 'group')
+    )
+  ) {
+    return skip('channels use variants or groups');
+  }
+
+  // Only files with an id can inherit, group those by schema
+  const groups = new Map<string, ChannelEntry[]>();
+  for (const entry of entries) {
+    if (entry.excluded || !shouldInherit(entry.config.raw)) {
+      continue;
+    }
+    const schemaKey = String(entry.config.merged.$schema ?? '');
+    const group = groups.get(schemaKey) ?? [];
+    group.push(entry);
+    groups.set(schemaKey, group);
+  }
+
+  // Pick the largest group sharing a schema
+  let group: ChannelEntry[] = [];
+  for (const candidate of groups.values()) {
+    if (candidate.length > group.length) {
+      group = candidate;
+    }
+  }
+
+  if (group.length < 2) {
+    return skip('fewer than 2 channels share the same schema');
+  }
+
+  // Compute the new root config from the merged channel configs
+  const root = buildCommonConfig(
+    group.map((entry) => entry.config.merged),
+    threshold
+  );
+  if (Object.keys(root).length === 0) {
+    return skip('no fields are shared between channels');
+  }
+
+  // Compute the new channel files
+  const newRaw = new Map<ChannelEntry, Record<string, unknown>>();
+  for (const entry of entries) {
+    if (entry.excluded) {
+      // Excluded channels are left as they are
+      newRaw.set(entry, entry.config.raw);
+    } else if (group.includes(entry)) {
+      const override = computeOverride(root, entry.config.merged);
+      newRaw.set(entry, { ...override, id: entry.config.merged.id });
+    } else if (shouldInherit(entry.config.raw)) {
+      // Other schema: keep the full merged content so it no longer depends on root
+      newRaw.set(entry, entry.config.merged);
+    } else {
+      // Does not inherit, file is left as is
+      newRaw.set(entry, entry.config.raw);
+    }
+  }
+
+  // Verify that every channel merges to the same result as before, with and
+  // without environment overlays
+  for (const entry of entries) {
+    const raw = newRaw.get(entry) ?? entry.config.raw;
+    for (const loaded of [entry.config, ...entry.overlaid]) {
+      if (!isDeepStrictEqual(remerge(loaded, rootPath, root, raw), loaded.merged)) {
+        const excluded = entry.excluded ? ' (excluded)' : '';
+        return skip(`result would not be lossless for channel '${entry.channel}'${excluded}`);
+      }
+    }
+  }
+
+  const writes: PendingWrite[] = [];
+  if (!isDeepStrictEqual(root, existingRoot)) {
+    writes.push({ filePath: rootPath, content: root });
+  }
+  for (const entry of entries) {
+    const raw = newRaw.get(entry) ?? entry.config.raw;
+    if (!isDeepStrictEqual(raw, entry.config.raw)) {
+      writes.push({ filePath: entry.config.path, content: raw });
+    }
+  }
+
+  return {
+    result: {
+      name,
+      status: 'optimized',
+      channels: group.map((entry) => entry.channel),
+      hoistedFields: flattenLeaves(root).size,
+    },
+    writes,
+  };
+}
+
+/**
+ * Merge a channel file with a new root config and the overlays it was loaded with
+ */
+function remerge(
+  loaded: ChannelConfig,
+  rootPath: string,
+  root: Record<string, unknown>,
+  raw: Record<string, unknown>
+): Record<string, unknown> {
+  const layers: ConfigLayer[] = [];
+  if (shouldInherit(raw) && schemasCompatible(root, raw)) {
+    layers.push({ source: 'root', name: loaded.name, path: rootPath, content: root });
+  }
+  layers.push({ source: 'channel', name: loaded.name, path: loaded.path, content: raw });
+  layers.push(...loaded.layers.filter((layer) => layer.source === 'overlay'));
+  return mergeLayers(layers);
+}
+
+/**
+ * Get the absolute overlay directories of all environments
+ */
+function getOverlayPaths(projectDir: string, config: ProjectConfig): string[] {
+  const overlays = new Set<string>();
+  for (const env of Object.values(config.environments ?? {})) {
+    if (env.overlay) {
+      overlays.add(path.resolve(projectDir, env.overlay));
+    }
+  }
+  return [...overlays];
+}
+
+/**
+ * Build a config containing the leaf values shared by enough of the given configs
+ *
+ * Arrays, primitives, nulls and empty objects are leaves, since arrays are replaced
+ * rather than merged. With a threshold above 0.5 at most one value can win per path.
+ */
+function buildCommonConfig(
+  configs: Record<string, unknown>[],
+  threshold: number
+): Record<string, unknown> {
+  const counts = new Map<string, Map<string, { value: unknown; count: number }>>();
+  const keyPaths = new Map<string, string[]>();
+
+  for (const config of configs) {
+    for (const [key, leaf] of flattenLeaves(config)) {
+      keyPaths.set(key, leaf.path);
+      const values = counts.get(key) ?? new Map<string, { value: unknown; count: number }>();
+      const valueKey = canonicalJson(leaf.value);
+      const existing = values.get(valueKey);
+      if (existing) {
+        existing.count++;
+      } else {
+        values.set(valueKey, { value: leaf.value, count: 1 });
+      }
+      counts.set(key, values);
+    }
+  }
+
+  const root: Record<string, unknown> = {};
+  for (const [key, values] of counts) {
+    for (const { value, count } of values.values()) {
+      if (count / configs.length >= threshold) {
+        setAtPath(root, keyPaths.get(key) ?? [], structuredClone(value));
+      }
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Compute the smallest overlay that merges with base into target
+ *
+ * Fields present in base but not in target are set to `null` to remove them.
+ */
+function computeOverride(
+  base: Record<string, unknown>,
+  target: Record<string, unknown>
+): Record<string, unknown> {
+  const override: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(target)) {
+    if (!(key in base)) {
+      override[key] = structuredClone(value);
+      continue;
+    }
+
+    const baseValue = base[key];
+    if (isDeepStrictEqual(baseValue, value)) {
+      continue;
+    }
+
+    if (isPlainObject(baseValue) && isPlainObject(value)) {
+      override[key] = computeOverride(baseValue, value);
+      continue;
+    }
+
+    override[key] = structuredClone(value);
+  }
+
+  for (const key of Object.keys(base)) {
+    if (!(key in target)) {
+      override[key] = null;
+    }
+  }
+
+  return override;
+}
+
+/**
+ * Flatten a config into its leaf values, keyed by the JSON-encoded path
+ */
+function flattenLeaves(
+  config: Record<string, unknown>,
+  prefix: string[] = [],
+  leaves: Map<string, { path: string[]; value: unknown }> = new Map()
+): Map<string, { path: string[]; value: unknown }> {
+  for (const [key, value] of Object.entries(config)) {
+    const leafPath = [...prefix, key];
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      flattenLeaves(value, leafPath, leaves);
+    } else {
+      leaves.set(JSON.stringify(leafPath), { path: leafPath, value });
+    }
+  }
+  return leaves;
+}
+
+/**
+ * Set a value at a nested path, creating intermediate objects
+ */
+function setAtPath(target: Record<string, unknown>, keys: string[], value: unknown): void {
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    const next = current[key];
+    if (!isPlainObject(next)) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  const last = keys[keys.length - 1];
+  if (last !== undefined) {
+    current[last] = value;
+  }
+}
+
+/**
+ * Serialize a value as JSON with sorted object keys
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) => {
+    if (isPlainObject(val)) {
+      return Object.fromEntries(
+        Object.keys(val)
+          .sort()
+          .map((key) => [key, val[key]])
+      );
+    }
+    return val;
+  });
+}
+
+/**
+ * Check if a value is a plain (non-array, non-null) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Format optimize result as summary text
+ */
+export function formatOptimizeResult(
+  result: OptimizeResult,
+  colors: boolean = true,
+  dryRun: boolean = false
+): string {
+  const c = colors
+    ? {
+        reset: '\x1b[0m',
+        green: '\x1b[32m',
+        yellow: '\x1b[33m',
+        dim: '\x1b[2m',
+        bold: '\x1b[1m',
+      }
+    : { reset: '', green: '', yellow: '', dim: '', bold: '' };
+
+  const lines: string[] = [];
+
+  // Per-config results
+  for (const r of result.configs) {
+    if (r.status === 'optimized') {
+      lines.push(
+        `${c.green}✓${c.reset} ${r.name}: ${r.hoistedFields} field(s) shared by ${r.channels.length} channel(s)`
+      );
+    } else {
+      lines.push(`${c.dim}○ ${r.name}: skipped (${r.reason})${c.reset}`);
+    }
+  }
+
+  // Files
+  if (result.filesWritten.length > 0) {
+    lines.push('');
+    lines.push(`${c.bold}${dryRun ? 'Would write:' : 'Written:'}${c.reset}`);
+    for (const file of result.filesWritten) {
+      lines.push(`  - ${file}`);
+    }
+  }
+
+  // Overall status
+  const optimized = result.configs.filter((r) => r.status === 'optimized').length;
+  lines.push('');
+  if (optimized === 0) {
+    lines.push(`${c.yellow}Nothing to optimize.${c.reset}`);
+  } else if (dryRun) {
+    lines.push(`${c.bold}${optimized} configuration(s) can be optimized (dry run).${c.reset}`);
+  } else {
+    lines.push(`${c.green}${c.bold}Optimized ${optimized} configuration(s).${c.reset}`);
+  }
+
+  return lines.join('\n');
+}
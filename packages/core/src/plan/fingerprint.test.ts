@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { fetchRemoteState, fingerprintConfig, fingerprintRemoteState } from './fingerprint.js';
+import { generatePlan } from './service.js';
+import { ConfigurationApiClient } from '../api/client.js';
+import { loadProjectConfig } from '../config/project.js';
+import { createFakeApi, type FakeApi } from '../__tests__/helpers/fake-api.js';
+import { createTestProject, cleanupTestProject } from '../__tests__/helpers/project.js';
+
+const REMOTE = { id: 'klarna_checkout', timeout: 10 };
+
+describe('fetchRemoteState', () => {
+  let projectDir: string;
+  let api: FakeApi;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject({
+      'sweden/klarna.yaml': { id: 'klarna_checkout', timeout: 30 },
+    });
+    api = createFakeApi({ sweden: { klarna_checkout: REMOTE } });
+  });
+
+  afterEach(async () => {
+    api.restore();
+    await cleanupTestProject(projectDir);
+  });
+
+  it('keys remote configurations by id when the file name differs', async () => {
+    const config = await loadProjectConfig(projectDir);
+
+    const plan = await generatePlan(projectDir, config);
+
+    const configPlan = plan.channels[0]?.configs[0];
+    expect(configPlan?.status).toBe('update');
+    expect(configPlan?.remoteId).toBe('klarna_checkout');
+    expect(configPlan?.remoteFingerprint).toBe(fingerprintConfig(REMOTE, plan.fingerprintSalt!));
+
+    const client = new ConfigurationApiClient({
+      baseUrl: config.api.baseUrl,
+      token: 'test-token',
+      merchant: config.merchant,
+    });
+    const state = await fetchRemoteState(client, plan);
+    expect(state.get('sweden/klarna')).toEqual(REMOTE);
+    expect(fingerprintRemoteState(state, plan.fingerprintSalt!)).toBe(plan.remoteFingerprint);
+  });
+});
@@ -0,0 +1,113 @@
+import * as crypto from 'node:crypto';
+import type { Plan } from './types.js';
+import { ConfigurationApiClient, ApiError } from '../api/client.js';
+
+/**
+ * Remote state of planned configurations, keyed by `<channel>/<config>`
+ * (null when the configuration does not exist remotely)
+ */
+export type RemoteState = Map<string, Record<string, unknown> | null>;
+
+/**
+ * Create a random salt for the fingerprints of a plan
+ *
+ * Plans are saved to files, so their fingerprints are salted: a plain hash of a
+ * remote payload would let anyone with the file confirm guesses of its secrets.
+ *
+ * @returns Hex-encoded salt
+ */
+export function createFingerprintSalt(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Compute a fingerprint of remote configuration state
+ *
+ * The fingerprint is a salted SHA-256 hash of the state as JSON with sorted keys,
+ * so it does not depend on the order in which the API returns fields or
+ * configurations.
+ *
+ * @param state - Remote state of the planned configurations
+ * @param salt - Salt of the plan (see `createFingerprintSalt`)
+ * @returns Hex-encoded fingerprint
+ */
+export function fingerprintRemoteState(state: RemoteState, salt: string): string {
+  return fingerprint(Object.fromEntries(state), salt);
+}
+
+/**
+ * Compute a fingerprint of a single remote configuration
+ *
+ * @param config - Remote configuration (null when it does not exist)
+ * @param salt - Salt of the plan (see `createFingerprintSalt`)
+ * @returns Hex-encoded fingerprint
+ */
+export function fingerprintConfig(config: Record<string, unknown> | null, salt: string): string {
+  return fingerprint(config, salt);
+}
+
+/**
+ * Hash a salt and a value as JSON with sorted keys
+ */
+function fingerprint(value: unknown, salt: string): string {
+  return crypto.createHash('sha256').update(salt).update(canonicalJson(value)).digest('hex');
+}
+
+/**
+ * Fetch the current remote state of the configurations in a plan
+ *
+ * Unmanaged configurations are not part of the state, since a plan never
+ * changes them.
+ *
+ * @param client - API client for the plan's environment
+ * @param plan - Plan to fetch the state for
+ * @returns Remote state of the planned configurations
+ */
+export async function fetchRemoteState(
+  client: ConfigurationApiClient,
+  plan: Plan
+): Promise<RemoteState> {
+  const state: RemoteState = new Map();
+  const remoteChannels = new Set((await client.listChannels()).map((ch) => ch.name));
+
+  for (const channelPlan of plan.channels) {
+    const remoteConfigs = new Map<string, Record<string, unknown>>();
+    if (remoteChannels.has(channelPlan.channel)) {
+      try {
+        for (const config of await client.listConfigs(channelPlan.channel)) {
+          remoteConfigs.set(config.id, config);
+        }
+      } catch (error) {
+        if (!(error instanceof ApiError && error.statusCode === 404)) {
+          throw error;
+        }
+      }
+    }
+
+    for (const configPlan of channelPlan.configs) {
+      if (configPlan.status === 'unmanaged') continue;
+      state.set(
+        `${channelPlan.channel}/${configPlan.name}`,
+        remoteConfigs.get(configPlan.remoteId ?? configPlan.name) ?? null
+      );
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Serialize a value as JSON with sorted object keys
+ */
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, val: unknown) => {
+    if (typeof val === 'object' && val !== null && !Array.isArray(val)) {
+      return Object.fromEntries(
+        Object.keys(val)
+          .sort()
+          .map((key) => [key, (val as Record<string, unknown>)[key]])
+      );
+    }
+    return val;
+  });
+}
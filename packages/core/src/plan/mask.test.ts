@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { maskConfigPlan } from './mask.js';
+import type { ConfigPlan, FieldDiff } from './types.js';
+
+function updatePlan(diffs: FieldDiff[]): ConfigPlan {
+  return { name: 'klarna_checkout', status: 'update', diffs };
+}
+
+describe('maskConfigPlan', () => {
+  it('shows placeholders for new values and masks old values of substituted fields', () => {
+    const plan = updatePlan([
+      { path: '/username', type: 'change', oldValue: 'old-user', newValue: 'new-user' },
+      { path: '/timeout', type: 'change', oldValue: 10, newValue: 30 },
+    ]);
+    const template = { username: '${KLARNA_USER}', timeout: 30 };
+
+    expect(maskConfigPlan(plan, template).diffs).toEqual([
+      { path: '/username', type: 'change', oldValue: '********', newValue: '${KLARNA_USER}' },
+      { path: '/timeout', type: 'change', oldValue: 10, newValue: 30 },
+    ]);
+  });
+
+  it('masks remote-only fields whose name looks like a secret', () => {
+    const plan = updatePlan([
+      { path: '/apiKey', type: 'remove', oldValue: 'remote-key' },
+      { path: '/settings', type: 'remove', oldValue: { password: 'hunter2', region: 'eu' } },
+      { path: '/region', type: 'remove', oldValue: 'eu' },
+    ]);
+
+    expect(maskConfigPlan(plan, { id: 'klarna_checkout' }).diffs).toEqual([
+      { path: '/apiKey', type: 'remove', oldValue: '********' },
+      { path: '/settings', type: 'remove', oldValue: { password: '********', region: 'eu' } },
+      { path: '/region', type: 'remove', oldValue: 'eu' },
+    ]);
+  });
+
+  it('masks secret-named fields whose local value is a literal', () => {
+    const plan = updatePlan([
+      { path: '/auth/clientSecret', type: 'change', oldValue: 'remote', newValue: 'local' },
+    ]);
+    const template = { auth: { clientSecret: 'local' } };
+
+    expect(maskConfigPlan(plan, template).diffs).toEqual([
+      { path: '/auth/clientSecret', type: 'change', oldValue: '********', newValue: '********' },
+    ]);
+  });
+
+  it('masks nested remote values under a placeholder', () => {
+    const plan = updatePlan([
+      {
+        path: '/credentials',
+        type: 'change',
+        oldValue: { user: 'remote-user', scopes: ['a'] },
+        newValue: 'local-user',
+      },
+      {
+        path: '/endpoints',
+        type: 'change',
+        oldValue: ['https://remote.example.com', 'https://other.example.com'],
+        newValue: ['https://local.example.com', 'https://other.example.com'],
+      },
+    ]);
+    const template = {
+      credentials: '${CREDENTIALS}',
+      endpoints: ['${PRIMARY_ENDPOINT}', 'https://other.example.com'],
+    };
+
+    expect(maskConfigPlan(plan, template).diffs).toEqual([
+      { path: '/credentials', type: 'change', oldValue: '********', newValue: '${CREDENTIALS}' },
+      {
+        path: '/endpoints',
+        type: 'change',
+        oldValue: ['********', 'https://other.example.com'],
+        newValue: ['${PRIMARY_ENDPOINT}', 'https://other.example.com'],
+      },
+    ]);
+  });
+
+  it('masks both values using related templates when new values are not from a template', () => {
+    const plan = updatePlan([
+      { path: '/username', type: 'change', oldValue: 'stage-user', newValue: 'prod-user' },
+      { path: '/timeout', type: 'change', oldValue: 10, newValue: 30 },
+    ]);
+    const related = { username: '${KLARNA_USER}', timeout: 10 };
+
+    expect(maskConfigPlan(plan, undefined, [related]).diffs).toEqual([
+      { path: '/username', type: 'change', oldValue: '********', newValue: '********' },
+      { path: '/timeout', type: 'change', oldValue: 10, newValue: 30 },
+    ]);
+  });
+
+  it('drops the diffs of deletions', () => {
+    const plan: ConfigPlan = {
+      name: 'klarna_checkout',
+      status: 'delete',
+      diffs: [{ path: '/username', type: 'remove', oldValue: 'remote-user' }],
+    };
+
+    expect(maskConfigPlan(plan, undefined).diffs).toEqual([]);
+  });
+});
@@ -0,0 +1,173 @@
+import type { ProjectConfig } from '../types/index.js';
+import type { ConfigPlan, FieldDiff } from './types.js';
+import { discoverChannels } from '../config/discovery.js';
+import { getOverlayDirectories } from '../config/project.js';
+import { loadAllChannelConfigs } from '../config/loader.js';
+import { findPlaceholders } from '../secrets/substitute.js';
+
+/**
+ * Value written instead of remote secrets
+ */
+const MASKED_VALUE = '********';
+
+/**
+ * Field names that hold secrets whatever the local configuration has there
+ */
+export const SECRET_KEY_PATTERN =
+  /password|passwd|passphrase|secret|token|credential|api[_-]?key|private[_-]?key|access[_-]?key|signing[_-]?key/i;
+
+/**
+ * Load merged local configurations without substituting secrets
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration
+ * @param channelNames - Channels to load
+ * @returns Merged configurations with `${VAR}` placeholders, keyed by `<channel>/<config>`
+ */
+export async function loadTemplates(
+  projectDir: string,
+  config: ProjectConfig,
+  channelNames: string[]
+): Promise<Map<string, Record<string, unknown>>> {
+  const wanted = new Set(channelNames);
+  let channels = await discoverChannels(projectDir, config.channels, getOverlayDirectories(config));
+  channels = channels.filter((ch) => wanted.has(ch.name));
+  channels = await loadAllChannelConfigs(channels, projectDir, {
+    configs: config.configs,
+    overlay: config.environment?.overlay,
+  });
+
+  const templates = new Map<string, Record<string, unknown>>();
+  for (const channel of channels) {
+    for (const channelConfig of channel.configs) {
+      templates.set(`${channel.name}/${channelConfig.name}`, channelConfig.merged);
+    }
+  }
+  return templates;
+}
+
+/**
+ * Mask secret values in the diffs of a config plan
+ *
+ * A field holds a secret when its name looks like one (e.g., `password`,
+ * `apiKey`) or when one of the templates has a `${VAR}` placeholder there.
+ * Remote (old) values of such fields are masked, including fields that only
+ * exist remotely. New values are shown as the template's placeholder when
+ * they were substituted from it, and masked otherwise. Deletions keep no diff
+ * values, since secrets in remote-only configurations cannot be told apart.
+ *
+ * @param configPlan - Config plan with substituted values
+ * @param template - Local configuration the new values were substituted from
+ *   (undefined when they come from elsewhere, e.g., a promotion or a backup)
+ * @param related - Other unsubstituted configurations whose placeholders mark
+ *   secret fields (e.g., the local configuration a rollback restores over)
+ * @returns Config plan with masked diffs
+ */
+export function maskConfigPlan(
+  configPlan: ConfigPlan,
+  template: Record<string, unknown> | undefined,
+  related: Array<Record<string, unknown> | undefined> = []
+): ConfigPlan {
+  if (configPlan.status === 'delete') {
+    return { ...configPlan, diffs: [] };
+  }
+
+  const templates = [template, ...related];
+  return {
+    ...configPlan,
+    diffs: configPlan.diffs.map((diff) => maskDiff(diff, template, templates)),
+  };
+}
+
+/**
+ * Replace secret values in a diff
+ */
+function maskDiff(
+  diff: FieldDiff,
+  template: Record<string, unknown> | undefined,
+  templates: unknown[]
+): FieldDiff {
+  const segments = diff.path.split('/').slice(1);
+  const secret = segments.some((segment) => SECRET_KEY_PATTERN.test(segment));
+  const templateValues = templates.map((t) => getAtPath(t, segments));
+  const templateValue = getAtPath(template, segments);
+
+  let newValue = diff.newValue;
+  if (newValue !== undefined) {
+    newValue =
+      findPlaceholders(templateValue).length > 0
+        ? templateValue
+        : maskValue(newValue, templateValues, secret);
+  }
+
+  return {
+    ...diff,
+    newValue,
+    oldValue:
+      diff.oldValue === undefined ? undefined : maskValue(diff.oldValue, templateValues, secret),
+  };
+}
+
+/**
+ * Mask the parts of a value that hold secrets
+ *
+ * @param value - Value to mask
+ * @param templateValues - Values at the same path in the templates
+ * @param secret - Whether the field name marks the value as a secret
+ */
+function maskValue(value: unknown, templateValues: unknown[], secret: boolean): unknown {
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  if (
+    secret ||
+    templateValues.some((t) => typeof t === 'string' && findPlaceholders(t).length > 0)
+  ) {
+    return MASKED_VALUE;
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        maskValue(
+          child,
+          templateValues.map((t) => (isPlainObject(t) ? t[key] : undefined)),
+          SECRET_KEY_PATTERN.test(key)
+        ),
+      ])
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((child, i) =>
+      maskValue(
+        child,
+        templateValues.map((t) => (Array.isArray(t) ? (t[i] as unknown) : undefined)),
+        false
+      )
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Get the value at a path of nested objects and arrays
+ */
+function getAtPath(obj: unknown, segments: string[]): unknown {
+  let current = obj;
+  for (const segment of segments) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Check if a value is a plain (non-array, non-null) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,108 @@
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { generateRevisionPlan } from './revision.js';
+import { loadProjectConfig } from '../config/project.js';
+import { GitError } from '../git/client.js';
+import {
+  DEFAULT_PROJECT_CONFIG,
+  createTestProject,
+  cleanupTestProject,
+  writeTestFiles,
+} from '../__tests__/helpers/project.js';
+
+/**
+ * Run git in a directory
+ */
+function git(dir: string, ...args: string[]): string {
+  return execFileSync(
+    'git',
+    ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+    { cwd: dir, encoding: 'utf-8' }
+  );
+}
+
+describe('generateRevisionPlan', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = await createTestProject({
+      'sweden/klarna_checkout.yaml': { id: 'klarna_checkout', timeout: 30 },
+      'sweden/adyen_checkout.yaml': { id: 'adyen_checkout', apiKey: '${ADYEN_KEY}' },
+      'norway/klarna_checkout.yaml': { id: 'klarna_checkout', timeout: 30 },
+    });
+    git(repoDir, 'init', '-q');
+    git(repoDir, 'add', '-A');
+    git(repoDir, 'commit', '-q', '-m', 'initial');
+  });
+
+  afterEach(async () => {
+    await cleanupTestProject(repoDir);
+  });
+
+  it('plans the working tree against a revision without the API or secrets', async () => {
+    await writeTestFiles(repoDir, {
+      'sweden/klarna_checkout.yaml': { id: 'klarna_checkout', timeout: 60 },
+      'sweden/walley_checkout.yaml': { id: 'walley_checkout' },
+    });
+    await fs.promises.rm(path.join(repoDir, 'norway'), { recursive: true });
+    const config = await loadProjectConfig(repoDir);
+
+    const plan = await generateRevisionPlan(repoDir, config, 'HEAD');
+
+    expect(plan.against).toBe('HEAD');
+    expect(
+      plan.channels.map((ch) => [ch.channel, ch.configs.map((c) => [c.name, c.status])])
+    ).toEqual([
+      [
+        'sweden',
+        [
+          ['adyen_checkout', 'unchanged'],
+          ['klarna_checkout', 'update'],
+          ['walley_checkout', 'create'],
+        ],
+      ],
+      ['norway', [['klarna_checkout', 'delete']]],
+    ]);
+    expect(plan.channels[0]?.configs[1]?.diffs).toMatchObject([
+      { path: '/timeout', oldValue: 30, newValue: 60 },
+    ]);
+    expect(git(repoDir, 'worktree', 'list').trim().split('\n')).toHaveLength(1);
+  });
+
+  it('reads a project in a subdirectory with its overlay at the revision', async () => {
+    const projectDir = path.join(repoDir, 'checkout');
+    await writeTestFiles(projectDir, {
+      'ncoctl.config.yaml': {
+        ...DEFAULT_PROJECT_CONFIG,
+        environments: { prod: { api: DEFAULT_PROJECT_CONFIG.api, overlay: 'environments/prod' } },
+      },
+      'sweden/klarna_checkout.yaml': { id: 'klarna_checkout', timeout: 30 },
+      'environments/prod/klarna_checkout.yaml': { endpoint: 'https://prod.example.com' },
+    });
+    git(repoDir, 'add', '-A');
+    git(repoDir, 'commit', '-q', '-m', 'add checkout project');
+    await writeTestFiles(projectDir, {
+      'environments/prod/klarna_checkout.yaml': { endpoint: 'https://prod2.example.com' },
+    });
+    const config = await loadProjectConfig(projectDir, { environment: 'prod' });
+
+    const plan = await generateRevisionPlan(projectDir, config, 'HEAD');
+
+    expect(plan.channels.map((ch) => ch.channel)).toEqual(['sweden']);
+    expect(plan.channels[0]?.configs[0]?.diffs).toMatchObject([
+      {
+        path: '/endpoint',
+        oldValue: 'https://prod.example.com',
+        newValue: 'https://prod2.example.com',
+      },
+    ]);
+  });
+
+  it('rejects an unknown revision', async () => {
+    const config = await loadProjectConfig(repoDir);
+
+    await expect(generateRevisionPlan(repoDir, config, 'no-such-branch')).rejects.toThrow(GitError);
+  });
+});
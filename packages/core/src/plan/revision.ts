@@ -0,0 +1,138 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { ProjectConfig, Channel } from '../types/index.js';
+import type { Plan, ChannelPlan, ConfigPlan } from './types.js';
+import { calculateSummary, withSources } from './service.js';
+import { discoverChannels } from '../config/discovery.js';
+import { getOverlayDirectories } from '../config/project.js';
+import { loadAllChannelConfigs } from '../config/loader.js';
+import { selectChannels } from '../config/patterns.js';
+import { withWorktree } from '../git/client.js';
+import { diffConfigs } from '../diff/differ.js';
+
+/**
+ * Options for planning against a git revision
+ */
+export interface RevisionPlanOptions {
+  /** Only plan channels matching these names or glob patterns */
+  channels?: string[];
+}
+
+/**
+ * Generate a plan comparing local configurations to the same project at a git revision
+ *
+ * The project tree at the revision is checked out into a temporary worktree and
+ * both sides are merged with the current project settings. The remote API is not
+ * used and `${VAR}` placeholders are left unresolved, so the plan shows how the
+ * merged configurations change between the revision and the working tree.
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration
+ * @param ref - Git ref to compare against (branch, tag or commit)
+ * @param options - Plan options
+ * @returns Plan, where "remote" is the project at the revision
+ */
+export async function generateRevisionPlan(
+  projectDir: string,
+  config: ProjectConfig,
+  ref: string,
+  options: RevisionPlanOptions = {}
+): Promise<Plan> {
+  const overlay = config.environment?.overlay;
+
+  const current = await loadChannels(projectDir, config, overlay);
+  const previous = await withWorktree(projectDir, ref, (revisionDir) =>
+    loadChannels(
+      revisionDir,
+      config,
+      overlay ? path.join(revisionDir, path.relative(projectDir, overlay)) : undefined
+    )
+  );
+
+  // Channels on either side, with removed channels last
+  const currentNames = new Set(current.map((ch) => ch.name));
+  const allChannels = [
+    ...current.map((ch) => ch.name),
+    ...previous.map((ch) => ch.name).filter((name) => !currentNames.has(name)),
+  ].map((name) => ({ name }));
+
+  const channelPlans: ChannelPlan[] = [];
+  for (const { name } of selectChannels(allChannels, options.channels)) {
+    const currentChannel = current.find((ch) => ch.name === name);
+    const previousChannel = previous.find((ch) => ch.name === name);
+    channelPlans.push({
+      channel: name,
+      existsRemotely: previousChannel !== undefined,
+      configs: generateConfigPlans(currentChannel, previousChannel),
+    });
+  }
+
+  return {
+    merchant: config.merchant,
+    environment: config.environment?.name,
+    against: ref,
+    timestamp: new Date().toISOString(),
+    channels: channelPlans,
+    unmanagedChannels: [],
+    summary: calculateSummary(channelPlans, []),
+  };
+}
+
+/**
+ * Discover and load the channels of a project tree (empty if the project does not exist there)
+ */
+async function loadChannels(
+  projectDir: string,
+  config: ProjectConfig,
+  overlay: string | undefined
+): Promise<Channel[]> {
+  if (!fs.existsSync(projectDir)) {
+    return [];
+  }
+
+  const channels = await discoverChannels(
+    projectDir,
+    config.channels,
+    getOverlayDirectories(config)
+  );
+  return loadAllChannelConfigs(channels, projectDir, { configs: config.configs, overlay });
+}
+
+/**
+ * Generate config plans for a channel, comparing the current tree to the revision
+ */
+function generateConfigPlans(
+  currentChannel: Channel | undefined,
+  previousChannel: Channel | undefined
+): ConfigPlan[] {
+  const configPlans: ConfigPlan[] = [];
+  const previousConfigs = new Map((previousChannel?.configs ?? []).map((c) => [c.id ?? c.name, c]));
+
+  for (const localConfig of currentChannel?.configs ?? []) {
+    const configId = localConfig.id ?? localConfig.name;
+    const previousConfig = previousConfigs.get(configId);
+    previousConfigs.delete(configId);
+
+    const diffs = withSources(
+      diffConfigs(localConfig.merged, previousConfig?.merged ?? {}),
+      localConfig
+    );
+    configPlans.push({
+      name: localConfig.name,
+      status: !previousConfig ? 'create' : diffs.length > 0 ? 'update' : 'unchanged',
+      diffs,
+      variant: localConfig.variant,
+    });
+  }
+
+  // Configurations removed since the revision
+  for (const previousConfig of previousConfigs.values()) {
+    configPlans.push({
+      name: previousConfig.name,
+      status: 'delete',
+      diffs: diffConfigs({}, previousConfig.merged),
+    });
+  }
+
+  return configPlans;
+}
@@ -0,0 +1,68 @@
+import * as crypto from 'node:crypto';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createSavedPlan } from './saved.js';
+import { generatePlan } from './service.js';
+import { applySavedPlan } from '../apply/service.js';
+import { loadProjectConfig } from '../config/project.js';
+import { createFakeApi, type FakeApi } from '../__tests__/helpers/fake-api.js';
+import { createTestProject, cleanupTestProject } from '../__tests__/helpers/project.js';
+
+// Keys in sorted order, as fingerprints hash them
+const REMOTE_CONFIG = { apiKey: 'remote-key', id: 'klarna_checkout', timeout: 10 };
+
+describe('saved plans', () => {
+  let projectDir: string;
+  let api: FakeApi;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject({
+      'sweden/klarna_checkout.yaml': { id: 'klarna_checkout', timeout: 30, apiKey: '${API_KEY}' },
+      '.env': 'API_KEY=local-key\n',
+    });
+    api = createFakeApi({ sweden: { klarna_checkout: REMOTE_CONFIG } });
+  });
+
+  afterEach(async () => {
+    api.restore();
+    await cleanupTestProject(projectDir);
+  });
+
+  it('salts the remote fingerprint with a random salt per plan', async () => {
+    const config = await loadProjectConfig(projectDir);
+
+    const first = await createSavedPlan(projectDir, config, await generatePlan(projectDir, config));
+    const second = await createSavedPlan(
+      projectDir,
+      config,
+      await generatePlan(projectDir, config)
+    );
+
+    const unsalted = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ 'sweden/klarna_checkout': REMOTE_CONFIG }))
+      .digest('hex');
+    expect(first.remoteFingerprint).not.toBe(unsalted);
+    expect(first.plan.fingerprintSalt).not.toBe(second.plan.fingerprintSalt);
+    expect(first.remoteFingerprint).not.toBe(second.remoteFingerprint);
+  });
+
+  it('refuses a stale plan unless forced', async () => {
+    const config = await loadProjectConfig(projectDir);
+    const saved = await createSavedPlan(projectDir, config, await generatePlan(projectDir, config));
+    api.channels.get('sweden')!.set('klarna_checkout', { ...REMOTE_CONFIG, timeout: 20 });
+
+    await expect(applySavedPlan(projectDir, config, saved)).rejects.toThrow(
+      'Remote configurations changed since the plan was made'
+    );
+    expect(api.snapshot()['sweden']?.['klarna_checkout']?.['timeout']).toBe(20);
+
+    const result = await applySavedPlan(projectDir, config, saved, { force: true });
+
+    expect(result.success).toBe(true);
+    expect(api.snapshot()['sweden']?.['klarna_checkout']).toEqual({
+      id: 'klarna_checkout',
+      timeout: 30,
+      apiKey: 'local-key',
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import * as fs from 'node:fs';
+import type { ProjectConfig } from '../types/index.js';
+import type { Plan } from './types.js';
+import { loadTemplates, maskConfigPlan } from './mask.js';
+
+/**
+ * Current saved plan file format version
+ */
+const SAVED_PLAN_VERSION = 1;
+
+/**
+ * A plan written to a file with `plan --out`, to be executed by `apply <file>`
+ */
+export interface SavedPlan {
+  /** File format version */
+  version: number;
+
+  /** The plan, with secret values masked in its diffs */
+  plan: Plan;
+
+  /** Fingerprint of the remote state the plan was computed against */
+  remoteFingerprint: string;
+
+  /**
+   * Configurations to create or update, keyed by `<channel>/<config>`, with
+   * `${VAR}` placeholders unresolved (substituted when applying)
+   */
+  payloads: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Error thrown when a saved plan cannot be read or executed
+ */
+export class SavedPlanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SavedPlanError';
+  }
+}
+
+/**
+ * Create a saved plan from a plan generated against the API
+ *
+ * Payloads are the merged local configurations before secret substitution, and
+ * diff values of fields that hold secrets are replaced by their placeholder
+ * (local side) or masked (remote side), so no secret is written in clear text.
+ * Deletions keep no diff values.
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration the plan was generated with
+ * @param plan - Plan generated by `generatePlan`
+ * @returns Saved plan
+ */
+export async function createSavedPlan(
+  projectDir: string,
+  config: ProjectConfig,
+  plan: Plan
+): Promise<SavedPlan> {
+  if (!plan.remoteFingerprint) {
+    throw new SavedPlanError('Only plans generated against the remote API can be saved');
+  }
+
+  const templates = await loadTemplates(
+    projectDir,
+    config,
+    plan.channels.map((ch) => ch.channel)
+  );
+
+  const payloads: Record<string, Record<string, unknown>> = {};
+  const maskedChannels = plan.channels.map((channelPlan) => ({
+    ...channelPlan,
+    configs: channelPlan.configs.map((configPlan) => {
+      const key = `${channelPlan.channel}/${configPlan.name}`;
+      const template = templates.get(key);
+      if (template && (configPlan.status === 'create' || configPlan.status === 'update')) {
+        payloads[key] = template;
+      }
+      return maskConfigPlan(configPlan, template);
+    }),
+  }));
+
+  return {
+    version: SAVED_PLAN_VERSION,
+    plan: { ...plan, channels: maskedChannels },
+    remoteFingerprint: plan.remoteFingerprint,
+    payloads,
+  };
+}
+
+/**
+ * Write a saved plan to a file
+ */
+export function writeSavedPlan(filePath: string, savedPlan: SavedPlan): void {
+  fs.writeFileSync(filePath, JSON.stringify(savedPlan, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Read a saved plan from a file
+ *
+ * @throws SavedPlanError if the file is missing or not a saved plan
+ */
+export function readSavedPlan(filePath: string): SavedPlan {
+  let content: unknown;
+  try {
+    content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new SavedPlanError(`Cannot read plan file ${filePath}: ${(error as Error).message}`);
+  }
+
+  const saved = content as Partial<SavedPlan> | null;
+  if (
+    !saved ||
+    typeof saved !== 'object' ||
+    !saved.plan ||
+    typeof saved.remoteFingerprint !== 'string' ||
+    !saved.payloads
+  ) {
+    throw new SavedPlanError(
+      `${filePath} is not a plan file. Create one with 'ncoctl plan --out'.`
+    );
+  }
+  if (saved.version !== SAVED_PLAN_VERSION) {
+    throw new SavedPlanError(
+      `Unsupported plan file version ${String(saved.version)} in ${filePath}`
+    );
+  }
+
+  return saved as SavedPlan;
+}
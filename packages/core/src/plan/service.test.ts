@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { generatePlan } from './service.js';
+import { loadProjectConfig } from '../config/project.js';
+import { writeAppliedState } from '../state/store.js';
+import { createFakeApi, type FakeApi } from '../__tests__/helpers/fake-api.js';
+import { createTestProject, cleanupTestProject } from '../__tests__/helpers/project.js';
+
+describe('generatePlan', () => {
+  let projectDir: string;
+  let api: FakeApi;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject({
+      'sweden/klarna_checkout.yaml': {
+        id: 'klarna_checkout',
+        timeout: 30,
+        region: 'eu',
+        retries: 3,
+      },
+    });
+    api = createFakeApi({
+      sweden: { klarna_checkout: { id: 'klarna_checkout', timeout: 10, region: 'us', retries: 2 } },
+    });
+  });
+
+  afterEach(async () => {
+    api.restore();
+    await cleanupTestProject(projectDir);
+  });
+
+  it('labels each changed field with the side that changed since the last apply', async () => {
+    await writeAppliedState(projectDir, undefined, 'sweden', 'klarna_checkout', {
+      id: 'klarna_checkout',
+      timeout: 10,
+      region: 'eu',
+      retries: 1,
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    const plan = await generatePlan(projectDir, config);
+
+    const diffs = plan.channels[0]?.configs[0]?.diffs ?? [];
+    expect(Object.fromEntries(diffs.map((d) => [d.path, d.origin]))).toEqual({
+      '/timeout': 'local',
+      '/region': 'remote',
+      '/retries': 'conflict',
+    });
+  });
+
+  it('leaves fields unlabelled when the configuration was never applied', async () => {
+    const config = await loadProjectConfig(projectDir);
+
+    const plan = await generatePlan(projectDir, config);
+
+    const diffs = plan.channels[0]?.configs[0]?.diffs ?? [];
+    expect(diffs).toHaveLength(3);
+    expect(diffs.every((d) => d.origin === undefined)).toBe(true);
+  });
+});
@@ -1,21 +1,42 @@
-import type { ProjectConfig, Channel, ChannelConfig } from '../types/index.js';
-import type { Plan, ChannelPlan, ConfigPlan, PlanSummary } from './types.js';
+import type { ProjectConfig, Channel, ChannelConfig, NamePatterns } from '../types/index.js';
+import type { Plan, ChannelPlan, ConfigPlan, FieldDiff, PlanSummary } from './types.js';
 import { validateProject } from '../validate/service.js';
 import { discoverChannels } from '../config/discovery.js';
+import { getOverlayDirectories } from '../config/project.js';
 import { loadAllChannelConfigs } from '../config/loader.js';
-import { getEnvironment } from '../secrets/env.js';
+import { getEnvironment, resolveApiToken } from '../secrets/env.js';
 import { substituteSecrets, MissingEnvVarError } from '../secrets/substitute.js';
 import { ConfigurationApiClient, ApiError } from '../api/client.js';
+import { mapConcurrent, resolveConcurrency } from '../api/concurrency.js';
 import { diffConfigs } from '../diff/differ.js';
+import {
+  createFingerprintSalt,
+  fingerprintConfig,
+  fingerprintRemoteState,
+  type RemoteState,
+} from './fingerprint.js';
+import { describeLayer, findValueSource } from '../merge/hierarchy.js';
+import { readChannelState, matchesAppliedValue, type AppliedState } from '../state/store.js';
+import {
+  DEFAULT_CONFIG_EXCLUDES,
+  isChannelIncluded,
+  isIncluded,
+  matchesAnyPattern,
+  selectChannels,
+} from '../config/patterns.js';
 
 /**
  * Options for plan generation
  */
 export interface PlanOptions {
-  /** Only plan specific channel */
-  channel?: string;
+  /** Only plan channels matching these names or glob patterns */
+  channels?: string[];
   /** Verbose output */
   verbose?: boolean;
+  /** Plan deletion of remote configurations that have no local file */
+  prune?: boolean;
+  /** Channels planned at the same time (default: `api.concurrency` from the project config) */
+  concurrency?: number;
 }
 
 /**
@@ -46,7 +67,7 @@ export async function generatePlan(
 ): Promise<Plan> {
   // Step 1: Validate first
   const validationResult = await validateProject(projectDir, config, {
-    channel: options.channel,
+    channels: options.channels,
   });
 
   if (!validationResult.valid) {
@@ -62,28 +83,22 @@ export async function generatePlan(
   }
 
   // Step 2: Discover and load channels
-  let channels = await discoverChannels(projectDir);
+  let channels = await discoverChannels(projectDir, config.channels, getOverlayDirectories(config));
+  const localChannelNames = new Set(channels.map((ch) => ch.name));
 
-  if (options.channel) {
-    channels = channels.filter((ch) => ch.name === options.channel);
-    if (channels.length === 0) {
-      throw new Error(`Channel '${options.channel}' not found`);
-    }
-  }
+  channels = selectChannels(channels, options.channels);
 
-  channels = await loadAllChannelConfigs(channels, projectDir);
+  channels = await loadAllChannelConfigs(channels, projectDir, {
+    configs: config.configs,
+    overlay: config.environment?.overlay,
+  });
 
   // Step 3: Load environment and substitute secrets
-  const env = await getEnvironment(projectDir);
+  const env = await getEnvironment(projectDir, config.environment);
   const channelsWithSecrets = substituteSecretsInChannels(channels, env);
 
   // Step 4: Get API token
-  const token = env['NCO_API_TOKEN'] ?? config.api.token;
-  if (!token) {
-    throw new Error(
-      'API token required. Set NCO_API_TOKEN environment variable or api.token in config.'
-    );
-  }
+  const token = resolveApiToken(env, config);
 
   // Step 5: Create API client and fetch remote state
   const client = new ConfigurationApiClient({
@@ -92,8 +107,10 @@ export async function generatePlan(
     merchant: config.merchant,
   });
 
-  // Step 6: Generate plan for each channel
-  const channelPlans: ChannelPlan[] = [];
+  // Step 6: Generate plan for each channel, several at a time up to the
+  // concurrency limit (plans stay in channel order)
+  const remoteState: RemoteState = new Map();
+  const fingerprintSalt = createFingerprintSalt();
   let remoteChannels: Set<string>;
 
   try {
@@ -106,23 +123,38 @@ export async function generatePlan(
     throw error;
   }
 
-  for (const channel of channelsWithSecrets) {
-    const channelPlan = await generateChannelPlan(
-      channel,
-      remoteChannels.has(channel.name),
-      client
-    );
-    channelPlans.push(channelPlan);
-  }
+  const channelPlans = await mapConcurrent(
+    channelsWithSecrets,
+    resolveConcurrency(config, options.concurrency),
+    async (channel) =>
+      generateChannelPlan(
+        channel,
+        remoteChannels.has(channel.name),
+        client,
+        config.configs,
+        options.prune ?? false,
+        remoteState,
+        fingerprintSalt,
+        await readChannelState(projectDir, config.environment?.name, channel.name)
+      )
+  );
 
   // Step 7: Calculate summary
-  const summary = calculateSummary(channelPlans, remoteChannels, channelsWithSecrets);
+  const unmanagedChannels = [...remoteChannels]
+    .filter((name) => !localChannelNames.has(name))
+    .filter((name) => isChannelIncluded(name, config.channels))
+    .sort((a, b) => a.localeCompare(b));
+  const summary = calculateSummary(channelPlans, unmanagedChannels);
 
   return {
     merchant: config.merchant,
+    environment: config.environment?.name,
     timestamp: new Date().toISOString(),
     channels: channelPlans,
+    unmanagedChannels,
     summary,
+    remoteFingerprint: fingerprintRemoteState(remoteState, fingerprintSalt),
+    fingerprintSalt,
   };
 }
 
@@ -160,7 +192,12 @@ function substituteSecretsInChannels(
 async function generateChannelPlan(
   channel: Channel,
   existsRemotely: boolean,
-  client: ConfigurationApiClient
+  client: ConfigurationApiClient,
+  configPatterns: NamePatterns | undefined,
+  prune: boolean,
+  remoteState: RemoteState,
+  fingerprintSalt: string,
+  appliedState: Map<string, AppliedState>
 ): Promise<ChannelPlan> {
   const configPlans: ConfigPlan[] = [];
 
@@ -183,10 +220,43 @@ async function generateChannelPlan(
 
   // Compare each local config
   for (const localConfig of channel.configs) {
-    const configPlan = generateConfigPlan(localConfig, remoteConfigs);
+    const configPlan = generateConfigPlan(
+      localConfig,
+      remoteConfigs,
+      appliedState.get(localConfig.name)
+    );
+    const configId = localConfig.id ?? localConfig.name;
+    if (configId !== localConfig.name) {
+      configPlan.remoteId = configId;
+    }
     configPlans.push(configPlan);
   }
 
+  // Remote configs without a local file are unmanaged, or deleted in prune mode
+  const localIds = new Set(channel.configs.map((c) => c.id ?? c.name));
+  const unmanaged = [...remoteConfigs.keys()]
+    .filter((id) => !localIds.has(id))
+    .filter((id) => isIncluded(id, configPatterns))
+    .sort((a, b) => a.localeCompare(b));
+
+  for (const id of unmanaged) {
+    // Default excludes are auto-generated and never deleted, even if included
+    const deletable = !matchesAnyPattern(id, DEFAULT_CONFIG_EXCLUDES);
+    configPlans.push(
+      prune && deletable
+        ? { name: id, status: 'delete', diffs: diffConfigs({}, remoteConfigs.get(id) ?? {}) }
+        : { name: id, status: 'unmanaged', diffs: [] }
+    );
+  }
+
+  // Record the remote state the plan was computed against
+  for (const configPlan of configPlans) {
+    if (configPlan.status === 'unmanaged') continue;
+    const remoteConfig = remoteConfigs.get(configPlan.remoteId ?? configPlan.name) ?? null;
+    remoteState.set(`${channel.name}/${configPlan.name}`, remoteConfig);
+    configPlan.remoteFingerprint = fingerprintConfig(remoteConfig, fingerprintSalt);
+  }
+
   return {
     channel: channel.name,
     existsRemotely,
@@ -199,7 +269,8 @@ async function generateChannelPlan(
  */
 function generateConfigPlan(
   localConfig: ChannelConfig,
-  remoteConfigs: Map<string, Record<string, unknown>>
+  remoteConfigs: Map<string, Record<string, unknown>>,
+  lastApplied: AppliedState | undefined
 ): ConfigPlan {
   const configId = localConfig.id ?? localConfig.name;
   const remoteConfig = remoteConfigs.get(configId);
@@ -209,18 +280,26 @@ function generateConfigPlan(
     return {
       name: localConfig.name,
       status: 'create',
-      diffs: diffConfigs(localConfig.merged, {}),
+      diffs: withOrigins(
+        withSources(diffConfigs(localConfig.merged, {}), localConfig),
+        lastApplied
+      ),
+      variant: localConfig.variant,
     };
   }
 
   // Compare existing
-  const diffs = diffConfigs(localConfig.merged, remoteConfig);
+  const diffs = withOrigins(
+    withSources(diffConfigs(localConfig.merged, remoteConfig), localConfig),
+    lastApplied
+  );
 
   if (diffs.length === 0) {
     return {
       name: localConfig.name,
       status: 'unchanged',
       diffs: [],
+      variant: localConfig.variant,
     };
   }
 
@@ -228,20 +307,56 @@ function generateConfigPlan(
     name: localConfig.name,
     status: 'update',
     diffs,
+    variant: localConfig.variant,
   };
 }
 
+/**
+ * Annotate diffs with the layer (root, variant, group or channel) that supplies
+ * each local value
+ */
+export function withSources(diffs: FieldDiff[], localConfig: ChannelConfig): FieldDiff[] {
+  return diffs.map((diff) => {
+    const layer = findValueSource(localConfig.layers, diff.path);
+    return layer ? { ...diff, source: describeLayer(layer) } : diff;
+  });
+}
+
+/**
+ * Annotate diffs with the side that changed since the last apply
+ *
+ * A field that still has its last-applied value locally was changed remotely
+ * (drift), one that still has it remotely was changed locally, and one where
+ * neither side has it was changed on both sides (conflict).
+ */
+function withOrigins(diffs: FieldDiff[], lastApplied: AppliedState | undefined): FieldDiff[] {
+  if (!lastApplied) {
+    return diffs;
+  }
+
+  return diffs.map((diff) => {
+    if (matchesAppliedValue(lastApplied, diff.path, diff.newValue)) {
+      return { ...diff, origin: 'remote' };
+    }
+    if (matchesAppliedValue(lastApplied, diff.path, diff.oldValue)) {
+      return { ...diff, origin: 'local' };
+    }
+    return { ...diff, origin: 'conflict' };
+  });
+}
+
 /**
  * Calculate plan summary
  */
-function calculateSummary(
+export function calculateSummary(
   channelPlans: ChannelPlan[],
-  remoteChannels: Set<string>,
-  localChannels: Channel[]
+  unmanagedChannels: string[]
 ): PlanSummary {
   let creates = 0;
   let updates = 0;
+  let deletes = 0;
   let unchanged = 0;
+  let unmanaged = 0;
 
   for (const channelPlan of channelPlans) {
     for (const configPlan of channelPlan.configs) {
@@ -252,22 +367,26 @@ function calculateSummary(
         case 'update':
           updates++;
           break;
+        case 'delete':
+          deletes++;
+          break;
         case 'unchanged':
           unchanged++;
           break;
+        case 'unmanaged':
+          unmanaged++;
+          break;
       }
     }
   }
 
-  // Count unmanaged remote channels
-  const localChannelNames = new Set(localChannels.map((ch) => ch.name));
-  const unmanaged = [...remoteChannels].filter((name) => !localChannelNames.has(name)).length;
-
   return {
     creates,
     updates,
+    deletes,
     unchanged,
     unmanaged,
+    unmanagedChannels: unmanagedChannels.length,
   };
 }
 
@@ -275,7 +394,7 @@ function calculateSummary(
  * Check if plan has changes to apply
  */
 export function planHasChanges(plan: Plan): boolean {
-  return plan.summary.creates > 0 || plan.summary.updates > 0;
+  return plan.summary.creates > 0 || plan.summary.updates > 0 || plan.summary.deletes > 0;
 }
 
 /**
@@ -284,21 +403,31 @@ export function planHasChanges(plan: Plan): boolean {
 export function getConfigsToApply(plan: Plan): Array<{
   channel: string;
   configName: string;
-  status: 'create' | 'update';
+  status: 'create' | 'update' | 'delete';
+  remoteId?: string;
+  remoteFingerprint?: string;
 }> {
   const result: Array<{
     channel: string;
     configName: string;
-    status: 'create' | 'update';
+    status: 'create' | 'update' | 'delete';
+    remoteId?: string;
+    remoteFingerprint?: string;
   }> = [];
 
   for (const channelPlan of plan.channels) {
     for (const configPlan of channelPlan.configs) {
-      if (configPlan.status === 'create' || configPlan.status === 'update') {
+      if (
+        configPlan.status === 'create' ||
+        configPlan.status === 'update' ||
+        configPlan.status === 'delete'
+      ) {
         result.push({
           channel: channelPlan.channel,
           configName: configPlan.name,
           status: configPlan.status,
+          remoteId: configPlan.remoteId,
+          remoteFingerprint: configPlan.remoteFingerprint,
         });
       }
     }
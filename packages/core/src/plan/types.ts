@@ -5,14 +5,35 @@ export interface Plan {
   /** Merchant being planned */
   merchant: string;
 
+  /** Environment being planned (when selected with --env) */
+  environment?: string;
+
+  /** Environment the planned state is promoted from (promote only) */
+  promotedFrom?: string;
+
+  /** Run id of the apply the plan undoes (rollback only) */
+  rollbackOf?: string;
+
+  /** Git ref the local state is compared to instead of the remote API (plan --against only) */
+  against?: string;
+
   /** Timestamp of plan generation (ISO 8601) */
   timestamp: string;
 
   /** Per-channel plans */
   channels: ChannelPlan[];
 
+  /** Remote channels that have no local directory */
+  unmanagedChannels: string[];
+
   /** Summary counts */
   summary: PlanSummary;
+
+  /** Fingerprint of the remote state of the planned configurations (plan against the API only) */
+  remoteFingerprint?: string;
+
+  /** Random salt of the plan's fingerprints */
+  fingerprintSalt?: string;
 }
 
 /**
@@ -37,10 +58,19 @@ export interface ConfigPlan {
   name: string;
 
   /** Change status */
-  status: 'create' | 'update' | 'unchanged';
+  status: 'create' | 'update' | 'unchanged' | 'delete' | 'unmanaged';
 
   /** Field-level differences */
   diffs: FieldDiff[];
+
+  /** Variant the local configuration is built from ($variant) */
+  variant?: string;
+
+  /** Id of the remote configuration, when it differs from the name */
+  remoteId?: string;
+
+  /** Fingerprint of the remote configuration the plan was built from (checked before applying) */
+  remoteFingerprint?: string;
 }
 
 /**
@@ -58,6 +88,18 @@ export interface FieldDiff {
 
   /** New value (undefined for remove) */
   newValue?: unknown;
+
+  /** Layer that supplied the new value, e.g. "root" or "group klarna" */
+  source?: string;
+
+  /** Layer that supplied the old value (channel comparisons only) */
+  oldSource?: string;
+
+  /**
+   * Which side changed since the last apply: the local files, the remote
+   * configuration, or both (plan against the API only, when a last-applied state exists)
+   */
+  origin?: 'local' | 'remote' | 'conflict';
 }
 
 /**
@@ -70,9 +112,15 @@ export interface PlanSummary {
   /** Existing configurations to update */
   updates: number;
 
+  /** Remote configurations to delete (prune mode only) */
+  deletes: number;
+
   /** Configurations with no changes */
   unchanged: number;
 
-  /** Configurations on remote not in local */
+  /** Configurations on remote not in local (in managed channels) */
   unmanaged: number;
+
+  /** Channels on remote not in local */
+  unmanagedChannels: number;
 }
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promoteEnvironment } from './service.js';
+import { PlanValidationError } from '../plan/service.js';
+import { loadProjectConfig } from '../config/project.js';
+import { createFakeApi, type FakeApi } from '../__tests__/helpers/fake-api.js';
+import {
+  DEFAULT_PROJECT_CONFIG,
+  createTestProject,
+  cleanupTestProject,
+  writeTestFiles,
+} from '../__tests__/helpers/project.js';
+
+const PROJECT_CONFIG = {
+  ...DEFAULT_PROJECT_CONFIG,
+  environments: {
+    stage: { api: DEFAULT_PROJECT_CONFIG.api, overlay: 'environments/stage' },
+    prod: { api: DEFAULT_PROJECT_CONFIG.api, overlay: 'environments/prod' },
+  },
+};
+
+describe('promoteEnvironment', () => {
+  let projectDir: string;
+  let api: FakeApi;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject(
+      {
+        'sweden/klarna_checkout.yaml': {
+          id: 'klarna_checkout',
+          timeout: 30,
+          username: '${KLARNA_USER}',
+        },
+        'environments/stage/klarna_checkout.yaml': {
+          endpoint: 'https://stage.example.com',
+          debug: true,
+        },
+        'environments/prod/klarna_checkout.yaml': { endpoint: 'https://prod.example.com' },
+        '.env.stage': 'KLARNA_USER=stage-user\n',
+        '.env.prod': 'KLARNA_USER=prod-user\n',
+      },
+      PROJECT_CONFIG
+    );
+  });
+
+  afterEach(async () => {
+    api.restore();
+    await cleanupTestProject(projectDir);
+  });
+
+  it("replaces environment-specific fields with the target's values", async () => {
+    api = createFakeApi({
+      sweden: {
+        klarna_checkout: {
+          id: 'klarna_checkout',
+          timeout: 10,
+          username: 'prod-user',
+          endpoint: 'https://prod.example.com',
+        },
+      },
+    });
+    const stage = await loadProjectConfig(projectDir, { environment: 'stage' });
+    const prod = await loadProjectConfig(projectDir, { environment: 'prod' });
+
+    const { plan, payloads } = await promoteEnvironment(projectDir, stage, prod, {
+      fromLocal: true,
+    });
+
+    expect(payloads.get('sweden/klarna_checkout')).toEqual({
+      id: 'klarna_checkout',
+      timeout: 30,
+      username: 'prod-user',
+      endpoint: 'https://prod.example.com',
+    });
+    expect(plan.promotedFrom).toBe('stage (local)');
+    expect(plan.channels[0]?.configs).toMatchObject([
+      { name: 'klarna_checkout', status: 'update', diffs: [{ path: '/timeout' }] },
+    ]);
+  });
+
+  it('creates configurations missing in the target environment', async () => {
+    api = createFakeApi();
+    const stage = await loadProjectConfig(projectDir, { environment: 'stage' });
+    const prod = await loadProjectConfig(projectDir, { environment: 'prod' });
+
+    const { plan } = await promoteEnvironment(projectDir, stage, prod, { fromLocal: true });
+
+    expect(plan.summary.creates).toBe(1);
+    expect(plan.channels[0]?.existsRemotely).toBe(false);
+  });
+
+  it('rejects promoted payloads that do not match the schema', async () => {
+    const schemaUrl = 'https://schemas.example.com/klarna_checkout.json';
+    const schema = { type: 'object', properties: { timeout: { type: 'number', maximum: 60 } } };
+    api = createFakeApi({
+      sweden: { klarna_checkout: { id: 'klarna_checkout', timeout: 120, username: 'prod-user' } },
+    });
+    const apiFetch = globalThis.fetch;
+    vi.stubGlobal('fetch', (input: string | URL | Request, init?: RequestInit) =>
+      String(input) === schemaUrl
+        ? Promise.resolve(new Response(JSON.stringify(schema)))
+        : apiFetch(input, init)
+    );
+    await writeTestFiles(projectDir, {
+      'sweden/klarna_checkout.yaml': {
+        $schema: schemaUrl,
+        id: 'klarna_checkout',
+        timeout: 30,
+        username: '${KLARNA_USER}',
+      },
+      'ncoctl.config.yaml': { ...PROJECT_CONFIG, schema: { skip: false } },
+    });
+    const stage = await loadProjectConfig(projectDir, { environment: 'stage' });
+    const prod = await loadProjectConfig(projectDir, { environment: 'prod' });
+
+    const error = await promoteEnvironment(projectDir, stage, prod).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(PlanValidationError);
+    const { errors } = error as PlanValidationError;
+    expect(errors.map((e) => e.channel)).toEqual(['sweden']);
+    expect(errors[0]?.message).toContain('klarna_checkout.yaml');
+  });
+
+  it('refuses to promote an environment to itself', async () => {
+    api = createFakeApi();
+    const prod = await loadProjectConfig(projectDir, { environment: 'prod' });
+
+    await expect(promoteEnvironment(projectDir, prod, prod)).rejects.toThrow(
+      'Source and target environments must differ'
+    );
+  });
+});
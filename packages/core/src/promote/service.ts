@@ -0,0 +1,391 @@
+import type { ProjectConfig, ChannelConfig, ConfigLayer, ValidationError } from '../types/index.js';
+import type { Plan, ChannelPlan, ConfigPlan } from '../plan/types.js';
+import { calculateSummary, PlanValidationError } from '../plan/service.js';
+import { createSchemaValidator } from '../validate/service.js';
+import type { SchemaValidator } from '../schema/validator.js';
+import { discoverChannels } from '../config/discovery.js';
+import { getOverlayDirectories, ProjectConfigError } from '../config/project.js';
+import { loadAllChannelConfigs } from '../config/loader.js';
+import { selectChannels } from '../config/patterns.js';
+import { getEnvironment, resolveApiToken } from '../secrets/env.js';
+import { substituteSecrets, findPlaceholders, MissingEnvVarError } from '../secrets/substitute.js';
+import { ConfigurationApiClient, ApiError } from '../api/client.js';
+import { diffConfigs } from '../diff/differ.js';
+import { createFingerprintSalt, fingerprintConfig } from '../plan/fingerprint.js';
+
+/**
+ * Options for promotion
+ */
+export interface PromoteOptions {
+  /** Only promote channels matching these names or glob patterns */
+  channels?: string[];
+  /** Promote the local state of the source environment instead of its remote state */
+  fromLocal?: boolean;
+}
+
+/**
+ * Result of preparing a promotion
+ */
+export interface PromoteResult {
+  /** Plan for the target environment */
+  plan: Plan;
+  /** Payloads to apply, keyed by `<channel>/<config>` (pass to applyConfigs) */
+  payloads: Map<string, Record<string, unknown>>;
+}
+
+/**
+ * Promote the effective configuration of one environment to another
+ *
+ * Reads the merged remote (or local) state of the source environment and, for
+ * every configuration managed locally, replaces the environment-specific fields
+ * with the target's values:
+ * - fields containing `${VAR}` placeholders (substituted with the target's env)
+ * - fields supplied by the source or target overlay
+ *
+ * The result is a normal plan for the target, with the promoted payloads to
+ * pass to `applyConfigs`. Promoted payloads are validated against the target
+ * configuration's `$schema`, as `generatePlan` validates local files.
+ *
+ * @param projectDir - Project root directory
+ * @param sourceConfig - Project configuration loaded for the source environment
+ * @param targetConfig - Project configuration loaded for the target environment
+ * @param options - Promote options
+ * @returns Plan and payloads for the target environment
+ * @throws PlanValidationError if a promoted payload does not match its schema
+ */
+export async function promoteEnvironment(
+  projectDir: string,
+  sourceConfig: ProjectConfig,
+  targetConfig: ProjectConfig,
+  options: PromoteOptions = {}
+): Promise<PromoteResult> {
+  const source = sourceConfig.environment;
+  const target = targetConfig.environment;
+  if (!source || !target) {
+    throw new ProjectConfigError('Promotion requires named source and target environments');
+  }
+  if (source.name === target.name) {
+    throw new ProjectConfigError('Source and target environments must differ');
+  }
+
+  // Load local channels as seen by each environment
+  let channels = await discoverChannels(
+    projectDir,
+    targetConfig.channels,
+    getOverlayDirectories(targetConfig)
+  );
+  channels = selectChannels(channels, options.channels);
+
+  const targetChannels = await loadAllChannelConfigs(channels, projectDir, {
+    configs: targetConfig.configs,
+    overlay: target.overlay,
+  });
+  const sourceChannels = await loadAllChannelConfigs(channels, projectDir, {
+    configs: targetConfig.configs,
+    overlay: source.overlay,
+  });
+
+  const sourceEnv = await getEnvironment(projectDir, source);
+  const targetEnv = await getEnvironment(projectDir, target);
+  const sourceClient = createClient(sourceConfig, sourceEnv);
+  const targetClient = createClient(targetConfig, targetEnv);
+
+  const sourceRemoteChannels = options.fromLocal
+    ? new Set<string>()
+    : await listChannelNames(sourceClient);
+  const targetRemoteChannels = await listChannelNames(targetClient);
+
+  const validator = targetConfig.schema?.skip
+    ? undefined
+    : createSchemaValidator(projectDir, targetConfig);
+  const validationErrors: Array<{ channel: string; message: string }> = [];
+
+  const channelPlans: ChannelPlan[] = [];
+  const payloads = new Map<string, Record<string, unknown>>();
+  const fingerprintSalt = createFingerprintSalt();
+
+  for (const targetChannel of targetChannels) {
+    const sourceChannel = sourceChannels.find((ch) => ch.name === targetChannel.name);
+    if (!sourceChannel) continue;
+
+    // Effective state of the source environment, by config id
+    const sourceState = options.fromLocal
+      ? new Map(sourceChannel.configs.map((c) => [c.id ?? c.name, resolveSecrets(c, sourceEnv)]))
+      : await listConfigs(sourceClient, targetChannel.name, sourceRemoteChannels);
+
+    // Current state of the target environment, by config id
+    const existsRemotely = targetRemoteChannels.has(targetChannel.name);
+    const targetState = await listConfigs(targetClient, targetChannel.name, targetRemoteChannels);
+
+    const configPlans: ConfigPlan[] = [];
+
+    for (const targetLocal of targetChannel.configs) {
+      const configId = targetLocal.id ?? targetLocal.name;
+      const sourceValue = sourceState.get(configId);
+      const sourceLocal = sourceChannel.configs.find((c) => c.name === targetLocal.name);
+
+      // Only configurations present in the source environment are promoted
+      if (!sourceValue || !sourceLocal) continue;
+
+      const promoted = applyEnvironmentFields(
+        sourceValue,
+        resolveSecrets(targetLocal, targetEnv),
+        environmentSpecificPaths(sourceLocal, targetLocal)
+      );
+      payloads.set(`${targetChannel.name}/${targetLocal.name}`, promoted);
+
+      if (validator && targetLocal.schemaUrl) {
+        for (const e of await validatePayload(validator, promoted, targetLocal)) {
+          validationErrors.push({
+            channel: targetChannel.name,
+            message: `${e.filePath}: ${e.message}`,
+          });
+        }
+      }
+
+      const remoteValue = targetState.get(configId);
+      const diffs = diffConfigs(promoted, remoteValue ?? {});
+      configPlans.push({
+        name: targetLocal.name,
+        status: !remoteValue ? 'create' : diffs.length > 0 ? 'update' : 'unchanged',
+        diffs,
+        variant: targetLocal.variant,
+        remoteId: configId !== targetLocal.name ? configId : undefined,
+        remoteFingerprint: fingerprintConfig(remoteValue ?? null, fingerprintSalt),
+      });
+    }
+
+    channelPlans.push({
+      channel: targetChannel.name,
+      existsRemotely,
+      configs: configPlans,
+    });
+  }
+
+  if (validationErrors.length > 0) {
+    throw new PlanValidationError(
+      'Validation failed. Promoted configurations do not match their schemas.',
+      validationErrors
+    );
+  }
+
+  return {
+    plan: {
+      merchant: targetConfig.merchant,
+      environment: target.name,
+      promotedFrom: options.fromLocal ? `${source.name} (local)` : source.name,
+      timestamp: new Date().toISOString(),
+      channels: channelPlans,
+      unmanagedChannels: [],
+      summary: calculateSummary(channelPlans, []),
+      fingerprintSalt,
+    },
+    payloads,
+  };
+}
+
+/**
+ * Create an API client for an environment
+ */
+function createClient(config: ProjectConfig, env: Record<string, string>): ConfigurationApiClient {
+  return new ConfigurationApiClient({
+    baseUrl: config.api.baseUrl,
+    token: resolveApiToken(env, config),
+    merchant: config.merchant,
+  });
+}
+
+/**
+ * List remote channel names of an environment
+ */
+async function listChannelNames(client: ConfigurationApiClient): Promise<Set<string>> {
+  try {
+    return new Set((await client.listChannels()).map((ch) => ch.name));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw new Error(`Failed to list remote channels: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * List remote configurations of a channel by id (empty if the channel does not exist)
+ */
+async function listConfigs(
+  client: ConfigurationApiClient,
+  channel: string,
+  remoteChannels: Set<string>
+): Promise<Map<string, Record<string, unknown>>> {
+  const configs = new Map<string, Record<string, unknown>>();
+  if (!remoteChannels.has(channel)) {
+    return configs;
+  }
+
+  for (const config of await client.listConfigs(channel)) {
+    configs.set(config.id, config);
+  }
+  return configs;
+}
+
+/**
+ * Validate a promoted payload against the schema of its target configuration
+ */
+async function validatePayload(
+  validator: SchemaValidator,
+  payload: Record<string, unknown>,
+  config: ChannelConfig
+): Promise<ValidationError[]> {
+  try {
+    return await validator.validate(payload, config.schemaUrl!, config.path);
+  } catch (error) {
+    return [
+      {
+        filePath: config.path,
+        fieldPath: '$schema',
+        message: `Schema validation failed: ${(error as Error).message}`,
+      },
+    ];
+  }
+}
+
+/**
+ * Substitute secrets in a local configuration
+ */
+function resolveSecrets(
+  config: ChannelConfig,
+  env: Record<string, string>
+): Record<string, unknown> {
+  try {
+    return substituteSecrets(config.merged, env);
+  } catch (error) {
+    if (error instanceof MissingEnvVarError) {
+      throw new Error(
+        `Missing environment variables in ${config.path}: ${error.missingVars.join(', ')}`
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Collect the paths whose values differ per environment
+ *
+ * Objects are walked field by field; arrays and primitives are single values,
+ * as they are replaced as a whole when merging.
+ */
+function environmentSpecificPaths(
+  sourceLocal: ChannelConfig,
+  targetLocal: ChannelConfig
+): string[] {
+  const paths = new Set<string>();
+
+  for (const config of [sourceLocal, targetLocal]) {
+    collectPaths(config.merged, '', paths, (value) => findPlaceholders(value).length > 0);
+    for (const layer of overlayLayers(config.layers)) {
+      collectPaths(layer.content, '', paths, () => true);
+    }
+  }
+
+  return [...paths];
+}
+
+/**
+ * Get the overlay layers of a configuration
+ */
+function overlayLayers(layers: ConfigLayer[]): ConfigLayer[] {
+  return layers.filter((layer) => layer.source === 'overlay');
+}
+
+/**
+ * Collect paths of values matching a predicate
+ */
+function collectPaths(
+  value: unknown,
+  prefix: string,
+  paths: Set<string>,
+  predicate: (value: unknown) => boolean
+): void {
+  if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      collectPaths(child, `${prefix}/${key}`, paths, predicate);
+    }
+    return;
+  }
+
+  if (prefix !== '' && predicate(value)) {
+    paths.add(prefix);
+  }
+}
+
+/**
+ * Replace environment-specific paths in the source state with the target's values
+ */
+function applyEnvironmentFields(
+  sourceValue: Record<string, unknown>,
+  targetValue: Record<string, unknown>,
+  paths: string[]
+): Record<string, unknown> {
+  const result = structuredClone(sourceValue);
+
+  for (const jsonPath of paths) {
+    const segments = jsonPath.split('/').slice(1);
+    const value = getAtPath(targetValue, segments);
+    if (value === undefined) {
+      deleteAtPath(result, segments);
+    } else {
+      setAtPath(result, segments, structuredClone(value));
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get the value at a path of nested objects
+ */
+function getAtPath(obj: Record<string, unknown>, segments: string[]): unknown {
+  let current: unknown = obj;
+  for (const segment of segments) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[segment];
+  }
+  return current;
+}
+
+/**
+ * Set the value at a path of nested objects, creating objects as needed
+ */
+function setAtPath(obj: Record<string, unknown>, segments: string[], value: unknown): void {
+  let current = obj;
+  for (const segment of segments.slice(0, -1)) {
+    const next = current[segment];
+    if (!isPlainObject(next)) {
+      current[segment] = {};
+    }
+    current = current[segment] as Record<string, unknown>;
+  }
+
+  const last = segments[segments.length - 1];
+  if (last !== undefined) {
+    current[last] = value;
+  }
+}
+
+/**
+ * Delete the value at a path of nested objects
+ */
+function deleteAtPath(obj: Record<string, unknown>, segments: string[]): void {
+  const parent = getAtPath(obj, segments.slice(0, -1));
+  const last = segments[segments.length - 1];
+  if (isPlainObject(parent) && last !== undefined) {
+    delete parent[last];
+  }
+}
+
+/**
+ * Check if a value is a plain object (not an array or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
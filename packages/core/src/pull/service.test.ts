@@ -0,0 +1,124 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { pullConfigs } from './service.js';
+import { generatePlan } from '../plan/service.js';
+import { optimizeProject } from '../optimize/service.js';
+import { loadEnvFile } from '../secrets/env.js';
+import { loadProjectConfig } from '../config/project.js';
+import { createFakeApi, type FakeApi } from '../__tests__/helpers/fake-api.js';
+import {
+  createTestProject,
+  cleanupTestProject,
+  readTestYaml,
+} from '../__tests__/helpers/project.js';
+
+describe('pullConfigs', () => {
+  let projectDir: string;
+  let api: FakeApi;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject();
+  });
+
+  afterEach(async () => {
+    api.restore();
+    await cleanupTestProject(projectDir);
+  });
+
+  it('writes one file per remote configuration', async () => {
+    api = createFakeApi({
+      sweden: { norce_adapter: { id: 'norce_adapter', applicationId: 1001 } },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await pullConfigs(projectDir, config);
+
+    expect(result.filesWritten).toEqual([path.join('sweden', 'norce_adapter.yaml')]);
+    expect(result.warnings).toEqual([]);
+    expect(await readTestYaml(projectDir, 'sweden/norce_adapter.yaml')).toEqual({
+      id: 'norce_adapter',
+      applicationId: 1001,
+    });
+  });
+
+  it('writes secret values to .env and placeholders to the files', async () => {
+    const adapter = {
+      id: 'klarna_checkout',
+      timeout: 30,
+      identityClientSecret: 'client-secret',
+      auth: { apiKey: 'api-key', user: 'merchant' },
+    };
+    api = createFakeApi({
+      sweden: { klarna_checkout: adapter },
+      norway: { klarna_checkout: adapter },
+    });
+    await fs.promises.writeFile(path.join(projectDir, '.env'), 'OTHER=value\n');
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await pullConfigs(projectDir, config);
+    await optimizeProject(projectDir, config);
+
+    expect(result.secrets).toHaveLength(4);
+    expect(await readTestYaml(projectDir, 'sweden/klarna_checkout.yaml')).toMatchObject({
+      identityClientSecret: '${SWEDEN_KLARNA_CHECKOUT_IDENTITY_CLIENT_SECRET}',
+      auth: { apiKey: '${SWEDEN_KLARNA_CHECKOUT_AUTH_API_KEY}' },
+    });
+    expect(await loadEnvFile(projectDir)).toEqual({
+      OTHER: 'value',
+      NORWAY_KLARNA_CHECKOUT_IDENTITY_CLIENT_SECRET: 'client-secret',
+      NORWAY_KLARNA_CHECKOUT_AUTH_API_KEY: 'api-key',
+      SWEDEN_KLARNA_CHECKOUT_IDENTITY_CLIENT_SECRET: 'client-secret',
+      SWEDEN_KLARNA_CHECKOUT_AUTH_API_KEY: 'api-key',
+    });
+    const root = await fs.promises.readFile(path.join(projectDir, 'klarna_checkout.yaml'), 'utf-8');
+    expect(root).toContain('timeout: 30');
+    expect(root).not.toContain('secret');
+
+    const plan = await generatePlan(projectDir, config);
+    expect(plan.channels.flatMap((ch) => ch.configs.map((c) => c.status))).toEqual([
+      'unchanged',
+      'unchanged',
+    ]);
+  });
+
+  it('skips channel and configuration names that would leave the project', async () => {
+    api = createFakeApi({
+      '..': { norce_adapter: { id: 'norce_adapter' } },
+      sweden: { '..\\evil': { id: '..\\evil' } },
+    });
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await pullConfigs(projectDir, config);
+
+    expect(result.filesWritten).toEqual([]);
+    expect(result.warnings).toHaveLength(2);
+    expect(fs.existsSync(path.join(projectDir, '..', 'norce_adapter.yaml'))).toBe(false);
+  });
+
+  it('removes inherited root fields the remote configuration lacks', async () => {
+    api = createFakeApi({
+      sweden: {
+        norce_adapter: { id: 'norce_adapter', applicationId: 1001, settings: { a: 1 } },
+      },
+    });
+    await fs.promises.writeFile(
+      path.join(projectDir, 'norce_adapter.yaml'),
+      'id: norce_adapter\ntimeout: 30\nsettings:\n  a: 0\n  b: 2\n'
+    );
+    const config = await loadProjectConfig(projectDir);
+
+    const result = await pullConfigs(projectDir, config);
+
+    expect(result.warnings).toEqual([]);
+    expect(await readTestYaml(projectDir, 'sweden/norce_adapter.yaml')).toEqual({
+      id: 'norce_adapter',
+      applicationId: 1001,
+      settings: { a: 1, b: null },
+      timeout: null,
+    });
+
+    const plan = await generatePlan(projectDir, config);
+    expect(plan.channels[0]?.configs.map((c) => c.status)).toEqual(['unchanged']);
+  });
+});
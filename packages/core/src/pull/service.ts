@@ -0,0 +1,324 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
+import type { ProjectConfig } from '../types/index.js';
+import { ConfigurationApiClient, ApiError } from '../api/client.js';
+import { getEnvironment, resolveApiToken, writeEnvValues } from '../secrets/env.js';
+import { findPlaceholders } from '../secrets/substitute.js';
+import { SECRET_KEY_PATTERN } from '../plan/mask.js';
+import { writeYamlFile } from '../config/writer.js';
+import { loadChannelConfigs } from '../config/loader.js';
+import { mergeLayers } from '../merge/hierarchy.js';
+import { isChannelIncluded, isIncluded, selectChannels } from '../config/patterns.js';
+
+/**
+ * Options for pull operation
+ */
+export interface PullOptions {
+  /** Only pull channels matching these names or glob patterns */
+  channels?: string[];
+  /** Overwrite existing files */
+  force?: boolean;
+}
+
+/**
+ * Configurations pulled for a single channel
+ */
+export interface PulledChannel {
+  /** Channel name (directory name) */
+  name: string;
+  /** Configuration names found remotely */
+  configs: string[];
+}
+
+/**
+ * Result of pull operation
+ */
+export interface PullResult {
+  /** Per-channel pulled configurations */
+  channels: PulledChannel[];
+  /** Files written (relative to project root) */
+  filesWritten: string[];
+  /** Files skipped because they already exist (relative to project root) */
+  filesSkipped: string[];
+  /** Env file the pulled secrets were written to (relative to project root) */
+  envFile: string;
+  /** Variables written to the env file, one per secret value */
+  secrets: string[];
+  /** Remote channels or configurations that were not written, or do not match after writing */
+  warnings: string[];
+}
+
+/**
+ * Pull remote configurations into local YAML files
+ *
+ * Writes one directory per remote channel and one `<config>.yaml` per configuration.
+ * The written files contain the full remote payload, so a subsequent plan reports
+ * every pulled configuration as unchanged. String values of secret-named fields
+ * (e.g., `identityClientSecret`, `apiKey`) are written as `${VAR}` placeholders,
+ * and their values are written to `.env` (or the environment's `.env.<name>`),
+ * which is gitignored. Where a written file inherits from a
+ * root, variant or group config, inherited fields the remote payload lacks are
+ * written as `null`. Configurations an environment overlay changes are reported
+ * as warnings, as are channel and configuration names that are not safe to use
+ * as file names.
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration
+ * @param options - Pull options
+ * @returns Pull result with written and skipped files
+ */
+export async function pullConfigs(
+  projectDir: string,
+  config: ProjectConfig,
+  options: PullOptions = {}
+): Promise<PullResult> {
+  // Load environment and get token
+  const env = await getEnvironment(projectDir, config.environment);
+  const token = resolveApiToken(env, config);
+
+  // Create API client
+  const client = new ConfigurationApiClient({
+    baseUrl: config.api.baseUrl,
+    token,
+    merchant: config.merchant,
+  });
+
+  // List remote channels
+  let channelNames: string[];
+  try {
+    const remoteChannels = (await client.listChannels()).filter((ch) =>
+      isChannelIncluded(ch.name, config.channels)
+    );
+    channelNames = selectChannels(remoteChannels, options.channels, 'remotely').map(
+      (ch) => ch.name
+    );
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw new Error(`Failed to list remote channels: ${error.message}`);
+    }
+    throw error;
+  }
+
+  channelNames.sort((a, b) => a.localeCompare(b));
+
+  const channels: PulledChannel[] = [];
+  const filesWritten: string[] = [];
+  const filesSkipped: string[] = [];
+  const warnings: string[] = [];
+  const secrets: Record<string, string> = {};
+
+  for (const channelName of channelNames) {
+    // Names come from the API and are used as paths, so they must stay inside the project
+    if (!isSafeFileName(channelName)) {
+      warnings.push(`Skipped channel '${channelName}': not a valid directory name`);
+      continue;
+    }
+
+    const remoteConfigs = await client.listConfigs(channelName);
+    const configNames: string[] = [];
+    const written = new Map<string, Record<string, unknown>>();
+
+    for (const remoteConfig of remoteConfigs) {
+      // Skip excluded configurations
+      if (!isIncluded(remoteConfig.id, config.configs)) {
+        continue;
+      }
+
+      if (!isSafeFileName(remoteConfig.id)) {
+        warnings.push(`Skipped ${channelName}/${remoteConfig.id}: not a valid file name`);
+        continue;
+      }
+
+      const relativePath = path.join(channelName, `${remoteConfig.id}.yaml`);
+      const filePath = path.join(projectDir, relativePath);
+      configNames.push(remoteConfig.id);
+
+      if (fs.existsSync(filePath) && !options.force) {
+        filesSkipped.push(relativePath);
+        continue;
+      }
+
+      const content = extractSecrets(
+        remoteConfig,
+        [channelName, remoteConfig.id],
+        false,
+        secrets
+      ) as Record<string, unknown>;
+      await writeYamlFile(filePath, content);
+      filesWritten.push(relativePath);
+      written.set(remoteConfig.id, content);
+    }
+
+    if (written.size > 0) {
+      warnings.push(...(await matchInheritedLayers(projectDir, config, channelName, written)));
+    }
+
+    configNames.sort((a, b) => a.localeCompare(b));
+    channels.push({ name: channelName, configs: configNames });
+  }
+
+  const envFile = config.environment ? `.env.${config.environment.name}` : '.env';
+  if (Object.keys(secrets).length > 0) {
+    await writeEnvValues(projectDir, envFile, secrets);
+  }
+
+  return {
+    channels,
+    filesWritten,
+    filesSkipped,
+    envFile,
+    secrets: Object.keys(secrets),
+    warnings,
+  };
+}
+
+/**
+ * Replace string values of secret-named fields with `${VAR}` placeholders
+ *
+ * Variable names are derived from the channel, configuration and field path
+ * (e.g., `SWEDEN_KLARNA_CHECKOUT_IDENTITY_CLIENT_SECRET`), so every secret gets
+ * its own variable and optimize never hoists one into a root config.
+ *
+ * @param value - Remote value
+ * @param segments - Channel, configuration and field path of the value
+ * @param secret - Whether a field name on the path marks the value as a secret
+ * @param secrets - Collected variable values, keyed by variable name
+ * @returns The value with placeholders
+ */
+function extractSecrets(
+  value: unknown,
+  segments: string[],
+  secret: boolean,
+  secrets: Record<string, string>
+): unknown {
+  if (typeof value === 'string') {
+    if (!secret || value === '' || findPlaceholders(value).length > 0) {
+      return value;
+    }
+    const baseName = toEnvName(segments);
+    let name = baseName;
+    for (let i = 2; name in secrets && secrets[name] !== value; i++) {
+      name = `${baseName}_${i}`;
+    }
+    secrets[name] = value;
+    return `\${${name}}`;
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [
+        key,
+        extractSecrets(child, [...segments, key], secret || SECRET_KEY_PATTERN.test(key), secrets),
+      ])
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((child, i) =>
+      extractSecrets(child, [...segments, String(i)], secret, secrets)
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Build an environment variable name from path segments
+ */
+function toEnvName(segments: string[]): string {
+  return segments
+    .map((segment) => segment.replace(/([a-z0-9])([A-Z])/g, '$1_$2'))
+    .join('_')
+    .toUpperCase()
+    .replace(/[^A-Z0-9]+/g, '_');
+}
+
+/**
+ * Check that a remote name can be used as a file or directory name
+ */
+function isSafeFileName(name: string): boolean {
+  return name !== '' && name !== '.' && name !== '..' && !/[/\\]/.test(name);
+}
+
+/**
+ * Rewrite pulled files so that their merged result equals the remote payload
+ *
+ * Pulled files have an `id`, so they inherit from root, variant and group
+ * configs of the same name. Inherited fields the remote payload lacks are
+ * written as `null`, which removes them when merging. Environment overlays are
+ * applied after the channel file and cannot be undone from it.
+ *
+ * @returns Warnings for configurations that still differ from the remote payload
+ */
+async function matchInheritedLayers(
+  projectDir: string,
+  config: ProjectConfig,
+  channelName: string,
+  pulled: Map<string, Record<string, unknown>>
+): Promise<string[]> {
+  const channel = await loadChannelConfigs(
+    {
+      name: channelName,
+      path: path.join(projectDir, channelName),
+      configs: [],
+      validationStatus: 'pending',
+    },
+    projectDir,
+    { configs: config.configs, overlay: config.environment?.overlay }
+  );
+
+  const warnings: string[] = [];
+  for (const channelConfig of channel.configs) {
+    const remoteConfig = pulled.get(channelConfig.name);
+    if (!remoteConfig || isDeepStrictEqual(channelConfig.merged, remoteConfig)) continue;
+
+    const inherited = channelConfig.layers.filter(
+      (layer) => layer.source !== 'channel' && layer.source !== 'overlay'
+    );
+    const overlays = channelConfig.layers.filter((layer) => layer.source === 'overlay');
+    const content =
+      inherited.length > 0 ? removeInherited(remoteConfig, mergeLayers(inherited)) : remoteConfig;
+    if (content !== remoteConfig) {
+      await writeYamlFile(channelConfig.path, content);
+    }
+
+    const merged = mergeLayers([
+      ...inherited,
+      { source: 'channel', name: channelName, path: channelConfig.path, content },
+      ...overlays,
+    ]);
+    if (!isDeepStrictEqual(merged, remoteConfig)) {
+      warnings.push(
+        `${channelName}/${channelConfig.name}: the environment overlay changes pulled values, so plan will show differences`
+      );
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Set inherited fields that a remote configuration lacks to `null`
+ */
+function removeInherited(
+  remoteConfig: Record<string, unknown>,
+  inherited: Record<string, unknown>
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...remoteConfig };
+  for (const [key, value] of Object.entries(inherited)) {
+    const remoteValue = remoteConfig[key];
+    if (!(key in remoteConfig)) {
+      result[key] = null;
+    } else if (isPlainObject(value) && isPlainObject(remoteValue)) {
+      result[key] = removeInherited(remoteValue, value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Check if a value is a plain (non-array, non-null) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
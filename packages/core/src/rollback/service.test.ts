@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { planRollback } from './service.js';
+import { applyConfigs } from '../apply/service.js';
+import { listBackups, readBackup } from '../backup/store.js';
+import { loadProjectConfig } from '../config/project.js';
+import { createFakeApi, type FakeApi, type RemoteData } from '../__tests__/helpers/fake-api.js';
+import { createTestProject, cleanupTestProject } from '../__tests__/helpers/project.js';
+
+const REMOTE: RemoteData = {
+  sweden: { klarna_checkout: { id: 'klarna_checkout', timeout: 10 } },
+};
+
+describe('planRollback', () => {
+  let projectDir: string;
+  let api: FakeApi;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject({
+      'sweden/klarna_checkout.yaml': { id: 'klarna_checkout', timeout: 30 },
+      'sweden/adyen_checkout.yaml': { id: 'adyen_checkout', timeout: 30 },
+    });
+    api = createFakeApi(REMOTE);
+  });
+
+  afterEach(async () => {
+    api.restore();
+    await cleanupTestProject(projectDir);
+  });
+
+  it('restores updated configurations and deletes created ones', async () => {
+    const config = await loadProjectConfig(projectDir);
+    await applyConfigs(projectDir, config);
+    const [backup] = await listBackups(projectDir);
+
+    const { plan, payloads } = await planRollback(projectDir, config, backup!);
+
+    expect(plan.rollbackOf).toBe(backup!.runId);
+    expect(plan.channels[0]?.configs.map((c) => [c.name, c.status])).toEqual([
+      ['klarna_checkout', 'update'],
+      ['adyen_checkout', 'delete'],
+    ]);
+    expect(payloads.get('sweden/klarna_checkout')).toEqual(REMOTE['sweden']!['klarna_checkout']);
+
+    await applyConfigs(projectDir, config, plan, { payloads });
+    expect(api.snapshot()).toEqual(REMOTE);
+  });
+
+  it('leaves configurations alone that are already back in their previous state', async () => {
+    const config = await loadProjectConfig(projectDir);
+    await applyConfigs(projectDir, config);
+    const [backup] = await listBackups(projectDir);
+    api.channels.get('sweden')!.set('klarna_checkout', { id: 'klarna_checkout', timeout: 10 });
+
+    const { plan } = await planRollback(projectDir, config, backup!);
+
+    expect(plan.channels[0]?.configs[0]).toMatchObject({
+      name: 'klarna_checkout',
+      status: 'unchanged',
+    });
+  });
+
+  it('skips rollback runs when picking the latest backup', async () => {
+    const config = await loadProjectConfig(projectDir);
+    await applyConfigs(projectDir, config);
+    const backup = await readBackup(projectDir);
+    const { plan, payloads } = await planRollback(projectDir, config, backup);
+    const rollback = await applyConfigs(projectDir, config, plan, { payloads });
+
+    const [latest] = await listBackups(projectDir);
+    expect(latest).toMatchObject({ runId: rollback.runId, rollbackOf: backup.runId });
+    expect((await readBackup(projectDir)).runId).toBe(backup.runId);
+    expect((await readBackup(projectDir, rollback.runId)).runId).toBe(rollback.runId);
+
+    const again = await planRollback(projectDir, config, await readBackup(projectDir));
+    expect(again.plan.summary).toMatchObject({ creates: 0, updates: 0, deletes: 0 });
+  });
+
+  it('refuses a backup made for another merchant', async () => {
+    const config = await loadProjectConfig(projectDir);
+    await applyConfigs(projectDir, config);
+    const [backup] = await listBackups(projectDir);
+
+    await expect(
+      planRollback(projectDir, { ...config, merchant: 'other-merchant' }, backup!)
+    ).rejects.toThrow("was made for merchant 'test-merchant'");
+  });
+});
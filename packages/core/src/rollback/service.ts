@@ -0,0 +1,115 @@
+import type { ProjectConfig } from '../types/index.js';
+import type { Plan, ChannelPlan, ConfigPlan } from '../plan/types.js';
+import { calculateSummary } from '../plan/service.js';
+import { createFingerprintSalt, fingerprintConfig } from '../plan/fingerprint.js';
+import { getEnvironment, resolveApiToken } from '../secrets/env.js';
+import { ConfigurationApiClient } from '../api/client.js';
+import { diffConfigs } from '../diff/differ.js';
+import { BackupError, readBackupPayload, type BackupManifest } from '../backup/store.js';
+
+/**
+ * Result of preparing a rollback
+ */
+export interface RollbackResult {
+  /** Plan restoring the state from before the run */
+  plan: Plan;
+  /** Payloads to apply, keyed by `<channel>/<config>` (pass to applyConfigs) */
+  payloads: Map<string, Record<string, unknown>>;
+}
+
+/**
+ * Plan restoring the remote state from before an apply run
+ *
+ * Configurations the run updated or deleted are restored from the backup, and
+ * configurations it created are deleted. The plan is computed against the
+ * current remote state, so configurations already back in their previous state
+ * are unchanged.
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration, loaded for the backup's environment
+ * @param backup - Backup read with `readBackup`
+ * @returns Plan and payloads to pass to `applyConfigs`
+ * @throws BackupError if the backup does not match the project or is incomplete
+ */
+export async function planRollback(
+  projectDir: string,
+  config: ProjectConfig,
+  backup: BackupManifest
+): Promise<RollbackResult> {
+  if (backup.merchant !== config.merchant) {
+    throw new BackupError(
+      `Backup '${backup.runId}' was made for merchant '${backup.merchant}', not '${config.merchant}'`
+    );
+  }
+  if (backup.environment !== config.environment?.name) {
+    throw new BackupError(
+      `Backup '${backup.runId}' was made for ${backup.environment ? `environment '${backup.environment}'` : 'no environment'}` +
+        `, not ${config.environment ? `'${config.environment.name}'` : 'without --env'}`
+    );
+  }
+
+  const env = await getEnvironment(projectDir, config.environment);
+  const client = new ConfigurationApiClient({
+    baseUrl: config.api.baseUrl,
+    token: resolveApiToken(env, config),
+    merchant: config.merchant,
+  });
+  const remoteChannels = new Set((await client.listChannels()).map((ch) => ch.name));
+
+  const channelPlans: ChannelPlan[] = [];
+  const payloads = new Map<string, Record<string, unknown>>();
+  const fingerprintSalt = createFingerprintSalt();
+
+  // Undo in reverse order of the run
+  for (const entry of [...backup.entries].reverse()) {
+    let channelPlan = channelPlans.find((ch) => ch.channel === entry.channel);
+    if (!channelPlan) {
+      channelPlan = {
+        channel: entry.channel,
+        existsRemotely: remoteChannels.has(entry.channel),
+        configs: [],
+      };
+      channelPlans.push(channelPlan);
+    }
+
+    const current = channelPlan.existsRemotely
+      ? await client.getConfig(entry.channel, entry.config)
+      : null;
+    const configPlan: ConfigPlan = {
+      name: entry.config,
+      status: 'unchanged',
+      diffs: [],
+      remoteFingerprint: fingerprintConfig(current, fingerprintSalt),
+    };
+
+    if (entry.existed) {
+      const previous = await readBackupPayload(projectDir, backup, entry.channel, entry.config);
+      payloads.set(`${entry.channel}/${entry.config}`, previous);
+      configPlan.diffs = diffConfigs(previous, current ?? {});
+      configPlan.status = !current
+        ? 'create'
+        : configPlan.diffs.length > 0
+          ? 'update'
+          : 'unchanged';
+    } else if (current) {
+      configPlan.diffs = diffConfigs({}, current);
+      configPlan.status = 'delete';
+    }
+
+    channelPlan.configs.push(configPlan);
+  }
+
+  return {
+    plan: {
+      merchant: config.merchant,
+      environment: config.environment?.name,
+      rollbackOf: backup.runId,
+      timestamp: new Date().toISOString(),
+      channels: channelPlans,
+      unmanagedChannels: [],
+      summary: calculateSummary(channelPlans, []),
+      fingerprintSalt,
+    },
+    payloads,
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parseEnvContent, getEnvironment, resolveApiToken } from './env.js';
+import type { ProjectConfig, ResolvedEnvironment } from '../types/index.js';
+import { createTestProject, cleanupTestProject } from '../__tests__/helpers/project.js';
+
+describe('parseEnvContent', () => {
+  it('parses plain, quoted and commented lines', () => {
+    expect(
+      parseEnvContent(
+        ['# comment', 'A=1', 'B="two words"', "C='single'", '', 'D="line\\nbreak"'].join('\n')
+      )
+    ).toEqual({ A: '1', B: 'two words', C: 'single', D: 'line\nbreak' });
+  });
+
+  it('keeps = signs after the first one in the value', () => {
+    expect(parseEnvContent('URL=https://example.com/?a=b')).toEqual({
+      URL: 'https://example.com/?a=b',
+    });
+  });
+});
+
+describe('getEnvironment', () => {
+  const prod: ResolvedEnvironment = {
+    name: 'prod',
+    tokenEnv: 'NCO_TEST_TOKEN_PROD',
+    production: true,
+  };
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject({
+      '.env': 'SHARED=base\nOVERRIDDEN=base\nNCO_TEST_TOKEN_PROD=stage-token\n',
+      '.env.prod': 'OVERRIDDEN=prod\n',
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupTestProject(projectDir);
+  });
+
+  it('loads .env without an environment', async () => {
+    const env = await getEnvironment(projectDir);
+
+    expect(env['SHARED']).toBe('base');
+    expect(env['NCO_TEST_TOKEN_PROD']).toBe('stage-token');
+  });
+
+  it('loads .env.<name> on top of .env', async () => {
+    const env = await getEnvironment(projectDir, prod);
+
+    expect(env['SHARED']).toBe('base');
+    expect(env['OVERRIDDEN']).toBe('prod');
+  });
+
+  it('does not take the environment token from the shared .env', async () => {
+    const env = await getEnvironment(projectDir, prod);
+
+    expect(env['NCO_TEST_TOKEN_PROD']).toBeUndefined();
+    const config = {
+      merchant: 'test-merchant',
+      api: { baseUrl: 'https://example.com' },
+      environment: prod,
+    } as ProjectConfig;
+    expect(() => resolveApiToken(env, config)).toThrow("API token required for environment 'prod'");
+  });
+});
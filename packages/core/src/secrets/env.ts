@@ -1,14 +1,24 @@
 import * as fs from 'node:fs';
 import * as path from 'node:path';
+import type { ProjectConfig, ResolvedEnvironment } from '../types/index.js';
+
+/**
+ * Environment variable holding the API token unless an environment names another
+ */
+export const DEFAULT_TOKEN_ENV = 'NCO_API_TOKEN';
 
 /**
  * Load environment variables from .env file
  *
  * @param projectDir - Directory containing .env file
+ * @param fileName - Env file name (default: .env)
  * @returns Record of environment variables from .env file
  */
-export async function loadEnvFile(projectDir: string): Promise<Record<string, string>> {
-  const envPath = path.join(projectDir, '.env');
+export async function loadEnvFile(
+  projectDir: string,
+  fileName: string = '.env'
+): Promise<Record<string, string>> {
+  const envPath = path.join(projectDir, fileName);
 
   if (!fs.existsSync(envPath)) {
     return {};
@@ -18,6 +28,59 @@ export async function loadEnvFile(projectDir: string): Promise<Record<string, st
   return parseEnvContent(content);
 }
 
+/**
+ * Set variables in a .env file
+ *
+ * Lines of variables that are already defined are replaced; other variables
+ * are appended. The file is created if it does not exist.
+ *
+ * @param projectDir - Directory containing .env file
+ * @param fileName - Env file name
+ * @param values - Variables to set
+ */
+export async function writeEnvValues(
+  projectDir: string,
+  fileName: string,
+  values: Record<string, string>
+): Promise<void> {
+  const envPath = path.join(projectDir, fileName);
+  const content = fs.existsSync(envPath) ? await fs.promises.readFile(envPath, 'utf-8') : '';
+  const lines = content === '' ? [] : content.replace(/\r?\n$/, '').split(/\r?\n/);
+  const replaced = new Set<string>();
+
+  const updated = lines.map((line) => {
+    const eqIndex = line.indexOf('=');
+    const key = line.slice(0, eqIndex).trim();
+    const value = values[key];
+    if (line.trim().startsWith('#') || eqIndex === -1 || value === undefined) {
+      return line;
+    }
+    replaced.add(key);
+    return `${key}=${formatEnvValue(value)}`;
+  });
+  for (const [key, value] of Object.entries(values)) {
+    if (!replaced.has(key)) {
+      updated.push(`${key}=${formatEnvValue(value)}`);
+    }
+  }
+
+  await fs.promises.writeFile(envPath, `${updated.join('\n')}\n`, 'utf-8');
+}
+
+/**
+ * Quote a value for a .env file when parseEnvContent would not read it back as is
+ */
+function formatEnvValue(value: string): string {
+  if (/^[^\s"'#\\]*$/.test(value)) {
+    return value;
+  }
+  return `"${value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')}"`;
+}
+
 /**
  * Parse .env file content into key-value pairs
  *
@@ -76,11 +139,27 @@ export function parseEnvContent(content: string): Record<string, string> {
  * Get all environment variables from both .env file and process.env
  * Process.env values take precedence over .env file values
  *
+ * With an environment, `.env.<environment>` is loaded on top of `.env`. The
+ * environment's token variable is not taken from `.env`, so a token meant for
+ * another environment is never sent to this one.
+ *
  * @param projectDir - Directory containing .env file
+ * @param environment - Selected environment
  * @returns Merged environment variables
  */
-export async function getEnvironment(projectDir: string): Promise<Record<string, string>> {
-  const envFileVars = await loadEnvFile(projectDir);
+export async function getEnvironment(
+  projectDir: string,
+  environment?: ResolvedEnvironment
+): Promise<Record<string, string>> {
+  const baseVars = await loadEnvFile(projectDir);
+  if (environment) {
+    delete baseVars[environment.tokenEnv];
+  }
+
+  const envFileVars = {
+    ...baseVars,
+    ...(environment ? await loadEnvFile(projectDir, `.env.${environment.name}`) : {}),
+  };
 
   // Process.env values take precedence
   const processEnvVars: Record<string, string> = {};
@@ -95,3 +174,25 @@ export async function getEnvironment(projectDir: string): Promise<Record<string,
     ...processEnvVars,
   };
 }
+
+/**
+ * Resolve the API token for the project or its selected environment
+ *
+ * @param env - Environment variables from getEnvironment
+ * @param config - Project configuration
+ * @returns Bearer token
+ * @throws Error if no token is configured
+ */
+export function resolveApiToken(env: Record<string, string>, config: ProjectConfig): string {
+  const tokenEnv = config.environment?.tokenEnv ?? DEFAULT_TOKEN_ENV;
+  const token = env[tokenEnv] ?? config.api.token;
+  if (!token) {
+    const environment = config.environment;
+    throw new Error(
+      environment
+        ? `API token required for environment '${environment.name}'. Set ${tokenEnv} environment variable, in .env.${environment.name}, or api.token in the environment's config.`
+        : `API token required. Set ${tokenEnv} environment variable or api.token in config.`
+    );
+  }
+  return token;
+}
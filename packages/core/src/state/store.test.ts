@@ -0,0 +1,64 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  readChannelState,
+  writeAppliedState,
+  matchesAppliedValue,
+  getStateDirectory,
+} from './store.js';
+import { createTestProject, cleanupTestProject } from '../__tests__/helpers/project.js';
+
+const PAYLOAD = {
+  id: 'klarna_checkout',
+  password: 'hunter2',
+  settings: { timeout: 30, regions: ['se', 'no'], proxy: null },
+};
+
+describe('applied state', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await createTestProject();
+  });
+
+  afterEach(async () => {
+    await cleanupTestProject(projectDir);
+  });
+
+  it('never writes payload values to disk', async () => {
+    await writeAppliedState(projectDir, 'prod', 'sweden', 'klarna_checkout', PAYLOAD);
+
+    const content = await fs.promises.readFile(
+      path.join(getStateDirectory(projectDir, 'prod'), 'sweden', 'klarna_checkout.json'),
+      'utf-8'
+    );
+    expect(content).not.toContain('hunter2');
+    expect(content).not.toContain('klarna_checkout');
+  });
+
+  it('matches the applied values of fields', async () => {
+    await writeAppliedState(projectDir, undefined, 'sweden', 'klarna_checkout', PAYLOAD);
+    const state = (await readChannelState(projectDir, undefined, 'sweden')).get('klarna_checkout')!;
+
+    expect(matchesAppliedValue(state, '/password', 'hunter2')).toBe(true);
+    expect(matchesAppliedValue(state, '/password', 'changed')).toBe(false);
+    expect(matchesAppliedValue(state, '/settings', PAYLOAD.settings)).toBe(true);
+    expect(matchesAppliedValue(state, '/settings/regions/1', 'no')).toBe(true);
+    expect(matchesAppliedValue(state, '/settings/proxy', null)).toBe(true);
+    expect(matchesAppliedValue(state, '/settings/retries', undefined)).toBe(true);
+    expect(matchesAppliedValue(state, '/password/length', undefined)).toBe(true);
+    expect(matchesAppliedValue(state, '/settings/retries', 3)).toBe(false);
+  });
+
+  it('ignores state written with unfingerprinted payloads', async () => {
+    const channelDir = path.join(getStateDirectory(projectDir, undefined), 'sweden');
+    await fs.promises.mkdir(channelDir, { recursive: true });
+    await fs.promises.writeFile(
+      path.join(channelDir, 'klarna_checkout.json'),
+      JSON.stringify({ appliedAt: new Date().toISOString(), payload: PAYLOAD })
+    );
+
+    expect((await readChannelState(projectDir, undefined, 'sweden')).size).toBe(0);
+  });
+});
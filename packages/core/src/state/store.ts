@@ -0,0 +1,156 @@
+import * as crypto from 'node:crypto';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
+
+/**
+ * Directory (relative to the project root) where last-applied state is kept
+ */
+export const STATE_DIR = '.ncoctl/state';
+
+/**
+ * Last-applied state of a single configuration
+ *
+ * The payload sent to the API holds resolved secrets, so only its shape is kept:
+ * every value is replaced by a salted fingerprint. That is enough to tell whether
+ * a local or remote value is still the applied one.
+ */
+export interface AppliedState {
+  /** When the configuration was applied (ISO 8601) */
+  appliedAt: string;
+
+  /** Random salt of the fingerprints */
+  salt: string;
+
+  /** Payload sent to the API, with each value replaced by its fingerprint */
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Get the state directory of an environment
+ *
+ * State is kept per environment, in `.ncoctl/state/<env>/`, or directly in
+ * `.ncoctl/state/` when no environment is selected.
+ */
+export function getStateDirectory(projectDir: string, environment?: string): string {
+  return path.join(projectDir, STATE_DIR, environment ?? '');
+}
+
+/**
+ * Read the last-applied state of the configurations in a channel
+ *
+ * @param projectDir - Project root directory
+ * @param environment - Selected environment (undefined for the default)
+ * @param channel - Channel name
+ * @returns Last-applied state keyed by configuration name (empty if never applied)
+ */
+export async function readChannelState(
+  projectDir: string,
+  environment: string | undefined,
+  channel: string
+): Promise<Map<string, AppliedState>> {
+  const channelDir = path.join(getStateDirectory(projectDir, environment), channel);
+  const state = new Map<string, AppliedState>();
+
+  let files: string[];
+  try {
+    files = await fs.promises.readdir(channelDir);
+  } catch {
+    return state;
+  }
+
+  for (const file of files.filter((f) => f.endsWith('.json'))) {
+    try {
+      const content = await fs.promises.readFile(path.join(channelDir, file), 'utf-8');
+      const applied = JSON.parse(content) as AppliedState;
+      // State written before payloads were fingerprinted cannot be compared
+      if (typeof applied.salt !== 'string') continue;
+      state.set(file.slice(0, -'.json'.length), applied);
+    } catch {
+      // Unreadable state is treated as never applied
+    }
+  }
+
+  return state;
+}
+
+/**
+ * Check if a value is the last-applied value of a field
+ *
+ * @param state - Last-applied state of the configuration
+ * @param fieldPath - JSON path of the field (e.g., "/api/timeout")
+ * @param value - Value to check (undefined when the field is absent)
+ * @returns Whether the field was applied with this value
+ */
+export function matchesAppliedValue(
+  state: AppliedState,
+  fieldPath: string,
+  value: unknown
+): boolean {
+  let applied: unknown = state.payload;
+  for (const segment of fieldPath.split('/').slice(1)) {
+    if (typeof applied !== 'object' || applied === null) return value === undefined;
+    applied = (applied as Record<string, unknown>)[segment];
+  }
+  return isDeepStrictEqual(conceal(value, state.salt), applied);
+}
+
+/**
+ * Record the payload of a configuration after it was applied
+ */
+export async function writeAppliedState(
+  projectDir: string,
+  environment: string | undefined,
+  channel: string,
+  config: string,
+  payload: Record<string, unknown>
+): Promise<void> {
+  const channelDir = path.join(getStateDirectory(projectDir, environment), channel);
+  await fs.promises.mkdir(channelDir, { recursive: true });
+
+  const salt = crypto.randomBytes(16).toString('hex');
+  const state: AppliedState = {
+    appliedAt: new Date().toISOString(),
+    salt,
+    payload: conceal(payload, salt) as Record<string, unknown>,
+  };
+  await fs.promises.writeFile(
+    path.join(channelDir, `${config}.json`),
+    JSON.stringify(state, null, 2) + '\n',
+    'utf-8'
+  );
+}
+
+/**
+ * Remove the state of a configuration after it was deleted remotely
+ */
+export async function removeAppliedState(
+  projectDir: string,
+  environment: string | undefined,
+  channel: string,
+  config: string
+): Promise<void> {
+  const channelDir = path.join(getStateDirectory(projectDir, environment), channel);
+  await fs.promises.rm(path.join(channelDir, `${config}.json`), { force: true });
+}
+
+/**
+ * Replace the values in a tree of objects and arrays by salted fingerprints
+ */
+function conceal(value: unknown, salt: string): unknown {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => conceal(item, salt));
+  }
+  if (typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, conceal(child, salt)])
+    );
+  }
+  return crypto
+    .createHash('sha256')
+    .update(salt + JSON.stringify(value))
+    .digest('hex');
+}
@@ -11,6 +11,8 @@ export interface ProjectConfig {
     baseUrl: string;
     /** Optional bearer token (env var NCO_API_TOKEN takes precedence) */
     token?: string;
+    /** Channels or configurations planned and applied at the same time (default: 1) */
+    concurrency?: number;
   };
 
   /** Schema caching settings */
@@ -23,6 +25,18 @@ export interface ProjectConfig {
     skip?: boolean;
   };
 
+  /** Configuration name filters */
+  configs?: NamePatterns;
+
+  /** Channel (directory) name filters */
+  channels?: NamePatterns;
+
+  /** Named target environments (e.g., stage, prod) */
+  environments?: Record<string, EnvironmentConfig>;
+
+  /** Environment selected with --env (resolved by loadProjectConfig) */
+  environment?: ResolvedEnvironment;
+
   /** Output settings */
   output?: {
     /** Default format: "text" or "json" (default: text) */
@@ -32,6 +46,61 @@ export interface ProjectConfig {
   };
 }
 
+/**
+ * Settings for a named environment in ncoctl.config.yaml
+ */
+export interface EnvironmentConfig {
+  /** Configuration API settings for this environment */
+  api: {
+    /** Configuration API base URL */
+    baseUrl: string;
+    /** Optional bearer token (the token variable takes precedence) */
+    token?: string;
+    /** Channels or configurations planned and applied at the same time (default: top-level setting) */
+    concurrency?: number;
+  };
+
+  /** Environment variable holding the API token (default: NCO_API_TOKEN) */
+  tokenEnv?: string;
+
+  /** Overlay directory merged on top of channel configs (relative to project root) */
+  overlay?: string;
+
+  /** Whether this is a production environment (default: true for "prod" and "production") */
+  production?: boolean;
+}
+
+/**
+ * The environment a command runs against
+ */
+export interface ResolvedEnvironment {
+  /** Environment name */
+  name: string;
+
+  /** Environment variable holding the API token */
+  tokenEnv: string;
+
+  /** Absolute path to overlay directory, if configured */
+  overlay?: string;
+
+  /** Whether this is a production environment */
+  production: boolean;
+}
+
+/**
+ * Glob patterns (`*` and `?`) selecting names
+ *
+ * A name is excluded if it matches an exclude pattern, unless it also matches
+ * an include pattern.
+ */
+export interface NamePatterns {
+  /** Patterns that are managed even if they match an exclude pattern */
+  include?: string[];
+
+  /** Patterns that are not managed */
+  exclude?: string[];
+}
+
 /**
  * A discovered channel directory containing configuration files
  */
@@ -76,6 +145,32 @@ export interface ChannelConfig {
 
   /** Whether this config inherits from root */
   inheritsFromRoot: boolean;
+
+  /** Variant referenced with $variant (merged between root and channel) */
+  variant?: string;
+
+  /** Groups the channel belongs to (from _channel.yaml, in merge order) */
+  groups?: string[];
+
+  /** Files merged into this config, in merge order (channel file, then overlays) */
+  layers: ConfigLayer[];
+}
+
+/**
+ * A file contributing to a merged configuration
+ */
+export interface ConfigLayer {
+  /** Inheritance level the file belongs to */
+  source: 'root' | 'variant' | 'group' | 'channel' | 'overlay';
+
+  /** Config name for root, variant or group name, channel name, or overlay directory name */
+  name: string;
+
+  /** Absolute path to file */
+  path: string;
+
+  /** Parsed content (directives such as $variant removed) */
+  content: Record<string, unknown>;
 }
 
 /**
@@ -147,11 +242,17 @@ export interface ApplyResult {
   /** Overall success */
   success: boolean;
 
+  /** Id of the backup of the previous remote state (when anything was changed) */
+  runId?: string;
+
   /** Per-configuration results */
   results: ConfigApplyResult[];
 
   /** Summary */
   summary: ApplySummary;
+
+  /** Problems that did not fail the run (e.g., the history could not be written) */
+  warnings?: string[];
 }
 
 /**
@@ -167,6 +268,15 @@ export interface ConfigApplyResult {
   /** Whether apply succeeded */
   success: boolean;
 
+  /** Whether the remote configuration changed since planning (not applied) */
+  conflict?: boolean;
+
+  /** Whether the configuration was written, then restored because its atomic scope failed */
+  rolledBack?: boolean;
+
+  /** Why restoring the configuration failed (it still has the applied payload) */
+  rollbackError?: string;
+
   /** Error message if failed */
   error?: string;
 }
@@ -181,6 +291,12 @@ export interface ApplySummary {
   /** Failed applies */
   failed: number;
 
+  /** Not applied because the remote configuration changed since planning */
+  conflicts: number;
+
+  /** Written, then restored because their atomic scope failed */
+  rolledBack: number;
+
   /** Skipped (no changes) */
   skipped: number;
 }
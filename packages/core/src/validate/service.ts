@@ -7,6 +7,8 @@ import type {
   ValidationResult,
 } from '../types/index.js';
 import { discoverChannels } from '../config/discovery.js';
+import { getOverlayDirectories } from '../config/project.js';
+import { selectChannels } from '../config/patterns.js';
 import { loadAllChannelConfigs } from '../config/loader.js';
 import { SchemaCache } from '../schema/cache.js';
 import { SchemaValidator } from '../schema/validator.js';
@@ -17,8 +19,8 @@ import { substituteSecrets, checkMissingEnvVars } from '../secrets/substitute.js
  * Options for validation
  */
 export interface ValidateOptions {
-  /** Only validate specific channel */
-  channel?: string;
+  /** Only validate channels matching these names or glob patterns */
+  channels?: string[];
 }
 
 /**
@@ -43,27 +45,21 @@ export async function validateProject(
   }
 
   // Discover and load channels
-  let channels = await discoverChannels(projectDir);
+  let channels = await discoverChannels(projectDir, config.channels, getOverlayDirectories(config));
 
-  // Filter to specific channel if requested
-  if (options.channel) {
-    channels = channels.filter((ch) => ch.name === options.channel);
-    if (channels.length === 0) {
-      throw new Error(`Channel '${options.channel}' not found`);
-    }
-  }
+  // Filter to selected channels if requested
+  channels = selectChannels(channels, options.channels);
 
   // Load all configs
-  channels = await loadAllChannelConfigs(channels, projectDir);
+  channels = await loadAllChannelConfigs(channels, projectDir, {
+    configs: config.configs,
+    overlay: config.environment?.overlay,
+  });
 
-  // Create cache and validator
-  const cacheDir = config.schema?.cacheDir ?? `${projectDir}/.ncoctl/schemas`;
-  const cacheTtl = config.schema?.cacheTtl ?? 86400;
-  const cache = new SchemaCache(cacheDir, cacheTtl);
-  const validator = new SchemaValidator(cache);
+  const validator = createSchemaValidator(projectDir, config);
 
   // Load environment variables for secret substitution
-  const env = await getEnvironment(projectDir);
+  const env = await getEnvironment(projectDir, config.environment);
 
   // Validate each channel
   const channelResults: ChannelValidationResult[] = [];
@@ -84,6 +80,19 @@ export async function validateProject(
   };
 }
 
+/**
+ * Create a schema validator using the project's schema cache settings
+ *
+ * @param projectDir - Project root directory
+ * @param config - Project configuration
+ * @returns Schema validator
+ */
+export function createSchemaValidator(projectDir: string, config: ProjectConfig): SchemaValidator {
+  const cacheDir = config.schema?.cacheDir ?? `${projectDir}/.ncoctl/schemas`;
+  const cacheTtl = config.schema?.cacheTtl ?? 86400;
+  return new SchemaValidator(new SchemaCache(cacheDir, cacheTtl));
+}
+
 /**
  * Validate all configurations in a channel
  */